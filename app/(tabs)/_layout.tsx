@@ -4,9 +4,19 @@ import React from "react";
 import { TabBarIcon } from "@/components/navigation/TabBarIcon";
 import { Colors } from "@/constants/Colors";
 import { useColorScheme } from "@/hooks/useColorScheme";
+import { useConversationsStore } from "@/stores/conversationsStore";
+import { useMatchesStore } from "@/stores/matchesStore";
 
 export default function TabLayout() {
   const colorScheme = useColorScheme();
+  const matches = useMatchesStore((state) => state.matches);
+  const conversations = useConversationsStore((state) => state.conversations);
+
+  // Unread messages from current matches, shown on the Messages tab.
+  const unread = matches.reduce(
+    (total, { profileId }) => total + (conversations[profileId]?.unread ?? 0),
+    0,
+  );
 
   return (
     <Tabs
@@ -27,13 +37,38 @@ export default function TabLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="matches"
+        options={{
+          title: "Matches",
+          tabBarIcon: ({ color, focused }) => (
+            <TabBarIcon
+              name={focused ? "heart" : "heart-outline"}
+              color={color}
+            />
+          ),
+        }}
+      />
+      <Tabs.Screen
+        name="messages"
+        options={{
+          title: "Messages",
+          tabBarBadge: unread || undefined,
+          tabBarIcon: ({ color, focused }) => (
+            <TabBarIcon
+              name={focused ? "chatbubbles" : "chatbubbles-outline"}
+              color={color}
+            />
+          ),
+        }}
+      />
       <Tabs.Screen
         name="explore"
         options={{
-          title: "Explore",
+          title: "Preferences",
           tabBarIcon: ({ color, focused }) => (
             <TabBarIcon
-              name={focused ? "code-slash" : "code-slash-outline"}
+              name={focused ? "options" : "options-outline"}
               color={color}
             />
           ),
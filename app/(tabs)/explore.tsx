@@ -0,0 +1,224 @@
+import { PreferenceOptions } from "@/components/PreferenceOptions";
+import { ThemedText } from "@/components/ThemedText";
+import {
+  PREFERENCES_MAX_AGE,
+  PREFERENCES_MIN_AGE,
+} from "@/constants/Preferences";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { usePreferencesStore } from "@/stores/preferencesStore";
+import { useProfileStore } from "@/stores/useProfileStore";
+import { noFocusOutline } from "@/styles/focus";
+import { collectOptions } from "@/utils/preferences";
+import { faMinus } from "@fortawesome/free-solid-svg-icons/faMinus";
+import { faPlus } from "@fortawesome/free-solid-svg-icons/faPlus";
+import { FontAwesomeIcon } from "@fortawesome/react-native-fontawesome";
+import { Link } from "expo-router";
+import {
+  Platform,
+  SafeAreaView,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import Colors from "../../styles/colors";
+
+/**
+ * Discovery preferences: age range, gender, sexuality, relationship type and required desires.
+ * Options are the values found on loaded profiles, so they match what the feed can show.
+ */
+export default function ExploreScreen() {
+  const profiles = useProfileStore((state) => state.profiles);
+  const { preferences, setAgeRange, togglePreference, resetPreferences } =
+    usePreferencesStore();
+
+  const backgroundColor = useThemeColor(
+    { light: Colors.tanLight2, dark: Colors.tanDark2 },
+    "background",
+  );
+
+  /**
+   * Renders a labelled age with buttons to step it by one year.
+   *
+   * @param {string} label - Label shown before the age.
+   * @param {number} age - The age to show.
+   * @param {number} min - Lowest age the stepper can reach.
+   * @param {number} max - Highest age the stepper can reach.
+   * @param {(age: number) => void} onChange - Called with the stepped age.
+   */
+  const renderAgeStepper = (
+    label: string,
+    age: number,
+    min: number,
+    max: number,
+    onChange: (age: number) => void,
+  ) => (
+    <View style={styles.stepper}>
+      <ThemedText>{label}</ThemedText>
+      <TouchableOpacity
+        accessibilityLabel={`Decrease ${label.toLowerCase()}`}
+        disabled={age <= min}
+        onPress={() => onChange(age - 1)}
+        style={styles.stepperButton}
+      >
+        <FontAwesomeIcon icon={faMinus} style={noFocusOutline} />
+      </TouchableOpacity>
+      <ThemedText type="defaultSemiBold" style={styles.age}>
+        {age}
+      </ThemedText>
+      <TouchableOpacity
+        accessibilityLabel={`Increase ${label.toLowerCase()}`}
+        disabled={age >= max}
+        onPress={() => onChange(age + 1)}
+        style={styles.stepperButton}
+      >
+        <FontAwesomeIcon icon={faPlus} style={noFocusOutline} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={{ ...styles.container, backgroundColor }}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.header}>
+          <ThemedText type="title">Preferences</ThemedText>
+          <Link href="/edit-profile" style={styles.profileLink}>
+            <ThemedText type="link">Edit your profile</ThemedText>
+          </Link>
+        </View>
+        <ThemedText style={styles.hint}>
+          Only profiles matching every preference are shown in the feed.
+        </ThemedText>
+
+        <View style={styles.section}>
+          <ThemedText type="defaultSemiBold">Age range</ThemedText>
+          {renderAgeStepper(
+            "From",
+            preferences.minAge,
+            PREFERENCES_MIN_AGE,
+            preferences.maxAge,
+            (age) => setAgeRange(age, preferences.maxAge),
+          )}
+          {renderAgeStepper(
+            "To",
+            preferences.maxAge,
+            preferences.minAge,
+            PREFERENCES_MAX_AGE,
+            (age) => setAgeRange(preferences.minAge, age),
+          )}
+        </View>
+
+        <PreferenceOptions
+          title="Gender"
+          hint="Show any of the selected genders, or everyone when none are selected."
+          options={collectOptions(profiles, "gender", preferences.genders)}
+          selected={preferences.genders}
+          pillColor={Colors.purple}
+          onToggle={(value) => togglePreference("genders", value)}
+        />
+        <PreferenceOptions
+          title="Sexuality"
+          hint="Show any of the selected sexualities, or everyone when none are selected."
+          options={collectOptions(
+            profiles,
+            "sexuality",
+            preferences.sexualities,
+          )}
+          selected={preferences.sexualities}
+          pillColor={Colors.purple}
+          onToggle={(value) => togglePreference("sexualities", value)}
+        />
+        <PreferenceOptions
+          title="Relationship type"
+          hint="Show singles, couples, or both."
+          options={collectOptions(profiles, "type", preferences.types)}
+          selected={preferences.types}
+          pillColor={Colors.green}
+          onToggle={(value) => togglePreference("types", value)}
+        />
+        <PreferenceOptions
+          title="Required desires"
+          hint="Only show profiles that list every selected desire."
+          options={collectOptions(profiles, "desires", preferences.desires)}
+          selected={preferences.desires}
+          pillColor={Colors.yellow}
+          onToggle={(value) => togglePreference("desires", value)}
+        />
+
+        <TouchableOpacity
+          accessibilityRole="button"
+          onPress={resetPreferences}
+          style={styles.resetButton}
+        >
+          <ThemedText type="defaultSemiBold" style={styles.resetText}>
+            Show everyone
+          </ThemedText>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: Platform.OS === "android" ? StatusBar.currentHeight : 0,
+  },
+
+  content: {
+    alignSelf: "center",
+    maxWidth: 500,
+    padding: 20,
+    width: "100%",
+  },
+
+  header: {
+    alignItems: "center",
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "space-between",
+  },
+  profileLink: {
+    paddingVertical: 8,
+  },
+
+  hint: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+
+  section: {
+    gap: 6,
+    marginVertical: 10,
+  },
+
+  stepper: {
+    alignItems: "center",
+    flexDirection: "row",
+    gap: 12,
+  },
+  stepperButton: {
+    backgroundColor: Colors.tan,
+    borderRadius: 100,
+    cursor: "pointer",
+    padding: 10,
+  },
+  age: {
+    minWidth: 32,
+    textAlign: "center",
+  },
+
+  resetButton: {
+    alignSelf: "flex-start",
+    backgroundColor: Colors.red,
+    borderRadius: 100,
+    cursor: "pointer",
+    marginTop: 16,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+  },
+  resetText: {
+    color: Colors.fontColorDark,
+  },
+});
@@ -0,0 +1,157 @@
+import { FeedMessage } from "@/components/FeedMessage";
+import { ThemedText } from "@/components/ThemedText";
+import { MatchEntry, useMatchEntries } from "@/hooks/useMatchEntries";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import Colors from "@/styles/colors";
+import { noFocusOutline } from "@/styles/focus";
+import { faComment } from "@fortawesome/free-solid-svg-icons/faComment";
+import { faHeart } from "@fortawesome/free-solid-svg-icons/faHeart";
+import { faUser } from "@fortawesome/free-solid-svg-icons/faUser";
+import { FontAwesomeIcon } from "@fortawesome/react-native-fontawesome";
+import { useRouter } from "expo-router";
+import {
+  FlatList,
+  Image,
+  Platform,
+  SafeAreaView,
+  StatusBar,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+/**
+ * Screen listing the user's matches, newest first, showing each couple once.
+ * Opening a match shows its profile page; the message button opens the chat.
+ */
+export default function MatchesScreen() {
+  const entries = useMatchEntries();
+  const router = useRouter();
+
+  const backgroundColor = useThemeColor(
+    { light: Colors.tanLight2, dark: Colors.tanDark2 },
+    "background",
+  );
+
+  /**
+   * Renders a row with the match's photo, name and match date, and a button to message them.
+   */
+  const renderEntry = ({ item }: { item: MatchEntry }) => {
+    const { profile, partner } = item;
+    const photo = profile?.photos[0] ?? partner?.photos[0];
+
+    return (
+      <View style={styles.row}>
+        <TouchableOpacity
+          accessibilityLabel={`Open ${profile?.info.name ?? "profile"}`}
+          onPress={() => router.push(`/profile/${item.id}`)}
+          style={styles.summary}
+        >
+          {photo ? (
+            <Image source={{ uri: photo.url }} style={styles.thumbnail} />
+          ) : (
+            <View style={{ ...styles.thumbnail, ...styles.placeholder }}>
+              <FontAwesomeIcon icon={faUser} color={Colors.blue} />
+            </View>
+          )}
+
+          <View style={styles.name}>
+            <ThemedText type="defaultSemiBold">
+              {profile
+                ? `${profile.info.name}, ${profile.info.age}`
+                : "Profile no longer available"}
+              {partner && ` & ${partner.info.name}, ${partner.info.age}`}
+            </ThemedText>
+            <ThemedText style={styles.details}>
+              Matched {new Date(item.matchedAt).toLocaleDateString()}
+            </ThemedText>
+          </View>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          accessibilityLabel={`Message ${profile?.info.name ?? "match"}`}
+          onPress={() => router.push(`/chat/${item.id}`)}
+          style={styles.button}
+        >
+          <FontAwesomeIcon
+            icon={faComment}
+            color={Colors.fontColorLight}
+            style={noFocusOutline}
+          />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={{ ...styles.container, backgroundColor }}>
+      <FlatList
+        contentContainerStyle={styles.content}
+        data={entries}
+        keyExtractor={(entry: MatchEntry) => entry.id}
+        ListEmptyComponent={
+          <FeedMessage
+            icon={faHeart}
+            title="No matches yet"
+            message="When someone you liked likes you back, they'll show up here."
+            actionLabel="Back to the feed"
+            onAction={() => router.navigate("/")}
+          />
+        }
+        ListHeaderComponent={<ThemedText type="title">Matches</ThemedText>}
+        renderItem={renderEntry}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: Platform.OS === "android" ? StatusBar.currentHeight : 0,
+  },
+
+  content: {
+    alignSelf: "center",
+    maxWidth: 500,
+    padding: 20,
+    width: "100%",
+  },
+
+  row: {
+    alignItems: "center",
+    flexDirection: "row",
+    gap: 12,
+    paddingVertical: 8,
+  },
+  summary: {
+    alignItems: "center",
+    flex: 1,
+    flexDirection: "row",
+    gap: 12,
+  },
+  thumbnail: {
+    borderRadius: 28,
+    height: 56,
+    width: 56,
+  },
+  placeholder: {
+    alignItems: "center",
+    backgroundColor: Colors.tan,
+    justifyContent: "center",
+  },
+  name: {
+    flex: 1,
+  },
+  details: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+
+  button: {
+    backgroundColor: Colors.blue,
+    borderRadius: 100,
+    cursor: "pointer",
+    padding: 14,
+  },
+});
@@ -0,0 +1,177 @@
+import { FeedMessage } from "@/components/FeedMessage";
+import { ThemedText } from "@/components/ThemedText";
+import { MatchEntry, useMatchEntries } from "@/hooks/useMatchEntries";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { Message, useConversationsStore } from "@/stores/conversationsStore";
+import Colors from "@/styles/colors";
+import { faComments } from "@fortawesome/free-solid-svg-icons/faComments";
+import { faUser } from "@fortawesome/free-solid-svg-icons/faUser";
+import { FontAwesomeIcon } from "@fortawesome/react-native-fontawesome";
+import { useRouter } from "expo-router";
+import {
+  FlatList,
+  Image,
+  Platform,
+  SafeAreaView,
+  StatusBar,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+/**
+ * A match with the latest state of its conversation.
+ */
+interface ConversationEntry extends MatchEntry {
+  // Most recent message, if any was exchanged.
+  lastMessage?: Message;
+  // Received messages not seen yet.
+  unread: number;
+}
+
+/**
+ * Screen listing conversations with matches, most recent activity first. Matches that
+ * haven't been written to yet are listed by when they matched.
+ */
+export default function MessagesScreen() {
+  const matchEntries = useMatchEntries();
+  const conversations = useConversationsStore((state) => state.conversations);
+  const router = useRouter();
+
+  const backgroundColor = useThemeColor(
+    { light: Colors.tanLight2, dark: Colors.tanDark2 },
+    "background",
+  );
+
+  const entries: ConversationEntry[] = matchEntries
+    .map((entry: MatchEntry) => {
+      const conversation = conversations[entry.id];
+
+      return {
+        ...entry,
+        lastMessage: conversation?.messages[conversation.messages.length - 1],
+        unread: conversation?.unread ?? 0,
+      };
+    })
+    .sort(
+      (a: ConversationEntry, b: ConversationEntry) =>
+        (b.lastMessage?.sentAt ?? b.matchedAt) -
+        (a.lastMessage?.sentAt ?? a.matchedAt),
+    );
+
+  /**
+   * Renders a row with the match's photo and name, the last message and the unread count.
+   */
+  const renderEntry = ({ item }: { item: ConversationEntry }) => {
+    const { profile, partner, lastMessage, unread } = item;
+    const photo = profile?.photos[0] ?? partner?.photos[0];
+
+    return (
+      <TouchableOpacity
+        accessibilityLabel={`Chat with ${profile?.info.name ?? "match"}`}
+        onPress={() => router.push(`/chat/${item.id}`)}
+        style={styles.row}
+      >
+        {photo ? (
+          <Image source={{ uri: photo.url }} style={styles.thumbnail} />
+        ) : (
+          <View style={{ ...styles.thumbnail, ...styles.placeholder }}>
+            <FontAwesomeIcon icon={faUser} color={Colors.blue} />
+          </View>
+        )}
+
+        <View style={styles.name}>
+          <ThemedText type="defaultSemiBold">
+            {profile?.info.name ?? "Profile no longer available"}
+            {partner && ` & ${partner.info.name}`}
+          </ThemedText>
+          <ThemedText numberOfLines={1} style={styles.details}>
+            {!lastMessage
+              ? "New match. Say hello!"
+              : lastMessage.from === "me"
+                ? `You: ${lastMessage.text}`
+                : lastMessage.text}
+          </ThemedText>
+        </View>
+
+        {unread > 0 && (
+          <View style={styles.badge}>
+            <ThemedText style={styles.badgeText}>{unread}</ThemedText>
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={{ ...styles.container, backgroundColor }}>
+      <FlatList
+        contentContainerStyle={styles.content}
+        data={entries}
+        keyExtractor={(entry: ConversationEntry) => entry.id}
+        ListEmptyComponent={
+          <FeedMessage
+            icon={faComments}
+            title="No conversations yet"
+            message="Once you match with someone, you can message them here."
+            actionLabel="Back to the feed"
+            onAction={() => router.navigate("/")}
+          />
+        }
+        ListHeaderComponent={<ThemedText type="title">Messages</ThemedText>}
+        renderItem={renderEntry}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: Platform.OS === "android" ? StatusBar.currentHeight : 0,
+  },
+
+  content: {
+    alignSelf: "center",
+    maxWidth: 500,
+    padding: 20,
+    width: "100%",
+  },
+
+  row: {
+    alignItems: "center",
+    flexDirection: "row",
+    gap: 12,
+    paddingVertical: 8,
+  },
+  thumbnail: {
+    borderRadius: 28,
+    height: 56,
+    width: 56,
+  },
+  placeholder: {
+    alignItems: "center",
+    backgroundColor: Colors.tan,
+    justifyContent: "center",
+  },
+  name: {
+    flex: 1,
+  },
+  details: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+
+  badge: {
+    alignItems: "center",
+    backgroundColor: Colors.red,
+    borderRadius: 12,
+    minWidth: 24,
+    paddingHorizontal: 6,
+  },
+  badgeText: {
+    color: Colors.fontColorLight,
+    fontSize: 14,
+    fontWeight: "bold",
+  },
+});
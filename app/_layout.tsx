@@ -10,6 +10,15 @@ import * as SplashScreen from "expo-splash-screen";
 import { useEffect } from "react";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { useProfileStore } from "@/stores/useProfileStore";
+import { useUserStore } from "@/stores/userStore";
+import { usePreferencesStore } from "@/stores/preferencesStore";
+import { startDecisionSync, useOutboxStore } from "@/stores/outboxStore";
+import { useMatchesStore } from "@/stores/matchesStore";
+import {
+  startMessaging,
+  useConversationsStore,
+} from "@/stores/conversationsStore";
+import { MatchOverlay } from "@/components/MatchOverlay";
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
@@ -23,15 +32,38 @@ export default function RootLayout() {
   });
 
   useEffect(() => {
+    let stopSync: (() => void) | undefined;
+    let stopMessaging: (() => void) | undefined;
+    // Set by the cleanup, which can run before the stores finish loading.
+    let cancelled = false;
+
     const initApp = async () => {
       if (loaded) {
-        // Fetch profiles when the app loads
-        await fetchProfiles();
+        // Load saved decisions, preferences, unsent decisions, matches and conversations, and fetch profiles when the app loads
+        await Promise.all([
+          useUserStore.persist.rehydrate(),
+          usePreferencesStore.persist.rehydrate(),
+          useOutboxStore.persist.rehydrate(),
+          useMatchesStore.persist.rehydrate(),
+          useConversationsStore.persist.rehydrate(),
+          fetchProfiles(),
+        ]);
+        if (cancelled) {
+          return;
+        }
+        // Sync decisions to the backend, starting with any left from the last session
+        stopSync = startDecisionSync();
+        stopMessaging = startMessaging();
         SplashScreen.hideAsync();
       }
     };
 
     initApp();
+    return () => {
+      cancelled = true;
+      stopSync?.();
+      stopMessaging?.();
+    };
   }, [loaded, fetchProfiles]);
 
   if (!loaded) {
@@ -43,8 +75,13 @@ export default function RootLayout() {
       <ThemeProvider value={colorScheme === "dark" ? DarkTheme : DefaultTheme}>
         <Stack>
           <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+          <Stack.Screen name="edit-profile" />
+          <Stack.Screen name="history" />
+          <Stack.Screen name="profile/[id]" />
+          <Stack.Screen name="chat/[id]" />
           <Stack.Screen name="+not-found" />
         </Stack>
+        <MatchOverlay />
       </ThemeProvider>
     </GestureHandlerRootView>
   );
@@ -0,0 +1,301 @@
+import { FeedMessage } from "@/components/FeedMessage";
+import { IcebreakerList } from "@/components/IcebreakerList";
+import { ThemedText } from "@/components/ThemedText";
+import { useProfile } from "@/hooks/useProfile";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { Message, useConversationsStore } from "@/stores/conversationsStore";
+import { useMatchesStore } from "@/stores/matchesStore";
+import { useUserStore } from "@/stores/userStore";
+import Colors from "@/styles/colors";
+import { noFocusOutline } from "@/styles/focus";
+import { suggestIcebreakers } from "@/utils/icebreakers";
+import { faPaperPlane } from "@fortawesome/free-solid-svg-icons/faPaperPlane";
+import { faUserSlash } from "@fortawesome/free-solid-svg-icons/faUserSlash";
+import { FontAwesomeIcon } from "@fortawesome/react-native-fontawesome";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import { useEffect, useMemo, useState } from "react";
+import {
+  FlatList,
+  KeyboardAvoidingView,
+  Platform,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+// Empty list of messages, kept stable so selectors don't return a new array each time.
+const NO_MESSAGES: Message[] = [];
+
+/**
+ * Describes where a message of the user's is, shown under it.
+ */
+const STATUS_LABELS: Record<Message["status"], string> = {
+  sending: "Sending…",
+  sent: "Sent",
+  delivered: "Delivered",
+  failed: "Not sent. Tap to retry",
+};
+
+/**
+ * Chat with a matched profile, newest messages at the bottom.
+ * Only matches can be written to; the conversation of a match that ended stays readable.
+ * An empty conversation offers conversation starters for the first message.
+ */
+export default function ChatScreen() {
+  const { id = "" } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+
+  const profile = useProfile(id || null);
+  const partner = useProfile(profile?.associated ?? null);
+  const matched = useMatchesStore((state) =>
+    state.matches.some(({ profileId }) => profileId === id),
+  );
+  const messages = useConversationsStore(
+    (state) => state.conversations[id]?.messages ?? NO_MESSAGES,
+  );
+  const unread = useConversationsStore(
+    (state) => state.conversations[id]?.unread ?? 0,
+  );
+  const { sendMessage, retryMessage, markRead } = useConversationsStore();
+  const ownInfo = useUserStore((state) => state.user.info);
+
+  // Opening lines offered until the first message is written.
+  const icebreakers = useMemo(
+    () =>
+      profile && matched && !messages.length
+        ? suggestIcebreakers(ownInfo, profile)
+        : [],
+    [profile, matched, messages.length, ownInfo],
+  );
+
+  const [draft, setDraft] = useState("");
+
+  const backgroundColor = useThemeColor(
+    { light: Colors.tanLight2, dark: Colors.tanDark2 },
+    "background",
+  );
+  const bubbleColor = useThemeColor(
+    { light: Colors.tan, dark: Colors.tanDark1 },
+    "background",
+  );
+  const color = useThemeColor({}, "text");
+
+  /**
+   * Effect hook to mark messages as seen while the chat is open.
+   */
+  useEffect(() => {
+    if (unread) {
+      markRead(id);
+    }
+  }, [id, unread, markRead]);
+
+  const name = partner
+    ? `${profile?.info.name} & ${partner.info.name}`
+    : (profile?.info.name ?? "Chat");
+
+  /**
+   * Sends the draft and clears the input.
+   */
+  const handleSend = (): void => {
+    if (!draft.trim()) {
+      return;
+    }
+    sendMessage(id, draft);
+    setDraft("");
+  };
+
+  /**
+   * Renders a message as a bubble, with its status under the user's own messages.
+   */
+  const renderMessage = ({ item }: { item: Message }) => {
+    const mine = item.from === "me";
+
+    return (
+      <TouchableOpacity
+        accessibilityLabel={
+          item.status === "failed" ? "Retry sending message" : undefined
+        }
+        disabled={item.status !== "failed"}
+        onPress={() => retryMessage(id, item.id)}
+        style={{
+          ...styles.message,
+          alignSelf: mine ? "flex-end" : "flex-start",
+        }}
+      >
+        <View
+          style={{
+            ...styles.bubble,
+            backgroundColor: mine ? Colors.blue : bubbleColor,
+          }}
+        >
+          <ThemedText
+            style={mine ? { color: Colors.fontColorLight } : undefined}
+          >
+            {item.text}
+          </ThemedText>
+        </View>
+        {mine && (
+          <ThemedText
+            style={{
+              ...styles.status,
+              ...(item.status === "failed" && styles.failed),
+            }}
+          >
+            {STATUS_LABELS[item.status]}
+          </ThemedText>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  if (profile === null && !messages.length) {
+    return (
+      <>
+        <Stack.Screen options={{ title: "Chat" }} />
+        <View style={{ ...styles.container, backgroundColor }}>
+          <FeedMessage
+            icon={faUserSlash}
+            title="Profile not found"
+            message="This profile doesn't exist or is no longer available."
+            actionLabel="Back to your messages"
+            onAction={() => router.replace("/messages")}
+          />
+        </View>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Stack.Screen options={{ title: name }} />
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : undefined}
+        keyboardVerticalOffset={Platform.OS === "ios" ? 100 : 0}
+        style={{ ...styles.container, backgroundColor }}
+      >
+        <FlatList
+          contentContainerStyle={styles.content}
+          data={[...messages].reverse()}
+          inverted
+          keyExtractor={(message: Message) => message.id}
+          ListFooterComponent={
+            messages.length ? null : (
+              <View>
+                <ThemedText style={styles.hint}>
+                  You matched with {name}. Say hello!
+                </ThemedText>
+                {icebreakers.length > 0 && (
+                  <IcebreakerList
+                    onSelect={setDraft}
+                    suggestions={icebreakers}
+                    title="Need an opener? Tap one to edit it before sending."
+                  />
+                )}
+              </View>
+            )
+          }
+          renderItem={renderMessage}
+        />
+
+        {matched ? (
+          <View style={styles.composer}>
+            <TextInput
+              accessibilityLabel="Message"
+              multiline
+              onChangeText={setDraft}
+              onSubmitEditing={handleSend}
+              placeholder="Write a message"
+              placeholderTextColor={Colors.blue}
+              style={{ ...styles.input, color }}
+              value={draft}
+            />
+            <TouchableOpacity
+              accessibilityLabel="Send message"
+              disabled={!draft.trim()}
+              onPress={handleSend}
+              style={{
+                ...styles.sendButton,
+                opacity: draft.trim() ? 1 : 0.5,
+              }}
+            >
+              <FontAwesomeIcon
+                icon={faPaperPlane}
+                color={Colors.fontColorLight}
+                style={noFocusOutline}
+              />
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <ThemedText style={styles.hint}>
+            You can only message your matches.
+          </ThemedText>
+        )}
+      </KeyboardAvoidingView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+
+  content: {
+    alignSelf: "center",
+    flexGrow: 1,
+    maxWidth: 600,
+    padding: 16,
+    width: "100%",
+  },
+  hint: {
+    opacity: 0.7,
+    padding: 16,
+    textAlign: "center",
+  },
+
+  message: {
+    marginVertical: 4,
+    maxWidth: "80%",
+  },
+  bubble: {
+    borderRadius: 18,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  status: {
+    alignSelf: "flex-end",
+    fontSize: 12,
+    opacity: 0.7,
+  },
+  failed: {
+    color: Colors.red,
+    opacity: 1,
+  },
+
+  composer: {
+    alignItems: "flex-end",
+    alignSelf: "center",
+    flexDirection: "row",
+    gap: 8,
+    maxWidth: 600,
+    padding: 12,
+    width: "100%",
+  },
+  input: {
+    borderColor: Colors.tan,
+    borderRadius: 20,
+    borderWidth: 2,
+    flex: 1,
+    fontSize: 16,
+    maxHeight: 120,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  sendButton: {
+    backgroundColor: Colors.blue,
+    borderRadius: 100,
+    cursor: "pointer",
+    padding: 12,
+  },
+});
@@ -0,0 +1,244 @@
+import { ProfileCard } from "@/components/ProfileCard";
+import { ThemedText } from "@/components/ThemedText";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { Profile } from "@/stores/useProfileStore";
+import { useUserStore } from "@/stores/userStore";
+import { normaliseTags, validateProfile } from "@/utils/profileValidation";
+import { Stack, useRouter } from "expo-router";
+import { useState } from "react";
+import {
+  KeyboardTypeOptions,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import Colors from "../styles/colors";
+
+// ID the own profile is previewed and validated under; never shown.
+const OWN_PROFILE_ID = "me";
+
+/**
+ * Editable copy of the own profile, kept as text until it is saved.
+ */
+interface ProfileDraft {
+  name: string;
+  age: string;
+  type: string;
+  gender: string;
+  sexuality: string;
+  about: string;
+  // Comma-separated list
+  desires: string;
+  // Comma-separated list
+  interests: string;
+}
+
+/**
+ * Edit screen for the current user's own profile, with a live preview rendered through
+ * `ProfileCard`, exactly as other users would see it.
+ */
+export default function EditProfileScreen() {
+  const { user, updateUser } = useUserStore();
+  const router = useRouter();
+
+  const [draft, setDraft] = useState<ProfileDraft>({
+    ...user.info,
+    age: `${user.info.age}`,
+    desires: user.info.desires.join(", "),
+    interests: user.info.interests.join(", "),
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const backgroundColor = useThemeColor(
+    { light: Colors.tanLight2, dark: Colors.tanDark2 },
+    "background",
+  );
+  const color = useThemeColor({}, "text");
+
+  /**
+   * The draft as a profile, validated the same way as profiles from the API.
+   */
+  const { profile: validated, reasons } = validateProfile({
+    id: OWN_PROFILE_ID,
+    info: {
+      ...draft,
+      desires: normaliseTags(draft.desires),
+      interests: normaliseTags(draft.interests),
+    },
+    associated: null,
+    photos: user.photos,
+  });
+
+  // Falls back to the saved profile while the draft is invalid, e.g. while the name is cleared.
+  const preview: Profile = validated ?? {
+    id: OWN_PROFILE_ID,
+    info: user.info,
+    associated: null,
+    photos: user.photos,
+  };
+
+  /**
+   * Saves the draft, or explains why it can't be saved.
+   */
+  const handleSave = (): void => {
+    if (!validated) {
+      setError(`Can't save: ${reasons[reasons.length - 1]}.`);
+      return;
+    }
+
+    updateUser({ info: validated.info });
+    router.back();
+  };
+
+  /**
+   * Renders a labelled text field bound to one draft field.
+   *
+   * @param {keyof ProfileDraft} field - The draft field to edit.
+   * @param {string} label - Label shown above the field.
+   * @param {object} options - Placeholder, keyboard type and whether the field takes several lines.
+   */
+  const renderField = (
+    field: keyof ProfileDraft,
+    label: string,
+    {
+      placeholder,
+      keyboardType,
+      multiline,
+    }: {
+      placeholder?: string;
+      keyboardType?: KeyboardTypeOptions;
+      multiline?: boolean;
+    } = {},
+  ) => (
+    <View style={styles.field}>
+      <ThemedText type="defaultSemiBold">{label}</ThemedText>
+      <TextInput
+        accessibilityLabel={label}
+        keyboardType={keyboardType}
+        multiline={multiline}
+        onChangeText={(value: string) => {
+          setError(null);
+          setDraft((previous: ProfileDraft) => ({
+            ...previous,
+            [field]: value,
+          }));
+        }}
+        placeholder={placeholder}
+        placeholderTextColor={Colors.blue}
+        style={{
+          ...styles.input,
+          ...(multiline && styles.multiline),
+          color,
+        }}
+        value={draft[field]}
+      />
+    </View>
+  );
+
+  return (
+    <>
+      <Stack.Screen options={{ title: "Your profile" }} />
+      <ScrollView
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+        style={{ backgroundColor }}
+      >
+        {renderField("name", "Name")}
+        {renderField("age", "Age", { keyboardType: "number-pad" })}
+        {renderField("type", "Relationship type", {
+          placeholder: "single, coupled & open…",
+        })}
+        {renderField("gender", "Gender")}
+        {renderField("sexuality", "Sexuality")}
+        {renderField("about", "About", { multiline: true })}
+        {renderField("desires", "Desires", {
+          placeholder: "Separate with commas",
+        })}
+        {renderField("interests", "Interests", {
+          placeholder: "Separate with commas",
+        })}
+
+        {error && <ThemedText style={styles.error}>{error}</ThemedText>}
+
+        <TouchableOpacity
+          accessibilityRole="button"
+          onPress={handleSave}
+          style={styles.saveButton}
+        >
+          <ThemedText type="defaultSemiBold" style={styles.saveText}>
+            Save
+          </ThemedText>
+        </TouchableOpacity>
+
+        <ThemedText type="subtitle" style={styles.previewTitle}>
+          Preview
+        </ThemedText>
+        <ThemedText style={styles.hint}>
+          This is how other people see your profile.
+        </ThemedText>
+        <ProfileCard
+          profile={preview}
+          onLike={() => {}}
+          onDislike={() => {}}
+          onSkip={() => {}}
+          scrollToIndex={() => {}}
+          preview
+        />
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    alignSelf: "center",
+    maxWidth: 500,
+    padding: 20,
+    width: "100%",
+  },
+
+  field: {
+    gap: 6,
+    marginBottom: 14,
+  },
+  input: {
+    borderColor: Colors.tan,
+    borderRadius: 10,
+    borderWidth: 2,
+    fontSize: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  multiline: {
+    minHeight: 96,
+    textAlignVertical: "top",
+  },
+
+  error: {
+    color: Colors.red,
+    marginBottom: 10,
+  },
+
+  saveButton: {
+    alignSelf: "flex-start",
+    backgroundColor: Colors.green,
+    borderRadius: 100,
+    cursor: "pointer",
+    paddingHorizontal: 28,
+    paddingVertical: 12,
+  },
+  saveText: {
+    color: Colors.fontColorDark,
+  },
+
+  previewTitle: {
+    marginTop: 30,
+  },
+  hint: {
+    fontSize: 14,
+    marginBottom: 12,
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,293 @@
+import { ProfileCard } from "@/components/ProfileCard";
+import { ThemedText } from "@/components/ThemedText";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { Profile, useProfileStore } from "@/stores/useProfileStore";
+import { DecisionType, useUserStore } from "@/stores/userStore";
+import Colors from "@/styles/colors";
+import { noFocusOutline } from "@/styles/focus";
+import { collapseCouples } from "@/utils/couples";
+import { faRotateLeft } from "@fortawesome/free-solid-svg-icons/faRotateLeft";
+import { faThumbsDown } from "@fortawesome/free-solid-svg-icons/faThumbsDown";
+import { faThumbsUp } from "@fortawesome/free-solid-svg-icons/faThumbsUp";
+import { faUser } from "@fortawesome/free-solid-svg-icons/faUser";
+import { FontAwesomeIcon } from "@fortawesome/react-native-fontawesome";
+import { Stack } from "expo-router";
+import { useState } from "react";
+import {
+  Image,
+  SectionList,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+/**
+ * A decided profile as listed on the history screen.
+ */
+interface HistoryEntry {
+  // ID of the decided profile.
+  id: string;
+  // Partner's ID for a couple, or null.
+  associated: string | null;
+  // The profile, or undefined when no copy was kept, e.g. for decisions made before copies were.
+  profile?: Profile;
+  // The partner's profile, when known.
+  partner?: Profile;
+}
+
+/**
+ * Screen listing liked and disliked profiles, newest decision first.
+ * Opening an entry shows its card; a decision can be changed, or cleared so the
+ * profile returns to the feed.
+ */
+export default function HistoryScreen() {
+  const {
+    likes,
+    dislikes,
+    decidedProfiles,
+    addLike,
+    addDislike,
+    removeLike,
+    removeDislike,
+  } = useUserStore();
+  const { profiles, restoreProfiles } = useProfileStore();
+
+  // ID of the entry whose card is open.
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const backgroundColor = useThemeColor(
+    { light: Colors.tanLight2, dark: Colors.tanDark2 },
+    "background",
+  );
+
+  /**
+   * Finds the kept copy of a decided profile, falling back to the loaded profiles.
+   *
+   * @param {string} id - The unique identifier of the profile.
+   */
+  const findProfile = (id: string): Profile | undefined =>
+    decidedProfiles[id] ??
+    profiles.find((profile: Profile) => profile.id === id);
+
+  /**
+   * Builds the entries for a decision list, newest first, showing each couple once.
+   *
+   * @param {string[]} ids - Decided profile IDs, oldest first.
+   */
+  const toEntries = (ids: string[]): HistoryEntry[] =>
+    collapseCouples(
+      [...ids].reverse().map((id: string) => {
+        const profile = findProfile(id);
+        const associated = profile?.associated ?? null;
+
+        return {
+          id,
+          associated,
+          profile,
+          partner: associated ? findProfile(associated) : undefined,
+        };
+      }),
+    );
+
+  const sections = [
+    {
+      title: "Liked",
+      decision: "like" as DecisionType,
+      data: toEntries(likes),
+    },
+    {
+      title: "Disliked",
+      decision: "dislike" as DecisionType,
+      data: toEntries(dislikes),
+    },
+  ];
+
+  /**
+   * Moves an entry to the other list.
+   *
+   * @param {HistoryEntry} entry - The entry to change.
+   * @param {DecisionType} decision - The new decision.
+   */
+  const handleChange = (entry: HistoryEntry, decision: DecisionType): void => {
+    const partnerId = entry.associated ?? undefined;
+
+    if (decision === "like") {
+      addLike(entry.id, partnerId);
+    } else {
+      addDislike(entry.id, partnerId);
+    }
+  };
+
+  /**
+   * Clears the decision on an entry, and its partner, and puts the profiles back in the feed.
+   *
+   * @param {HistoryEntry} entry - The entry to clear.
+   */
+  const handleClear = (entry: HistoryEntry): void => {
+    [entry.id, entry.associated].forEach((id: string | null) => {
+      if (id) {
+        removeLike(id);
+        removeDislike(id);
+      }
+    });
+
+    restoreProfiles(
+      [entry.profile, entry.partner].filter(
+        (profile): profile is Profile => !!profile,
+      ),
+    );
+    setOpenId(null);
+  };
+
+  /**
+   * Renders a row with the entry's photo and name, and buttons to change or clear the decision.
+   */
+  const renderEntry = (entry: HistoryEntry, decision: DecisionType) => {
+    const { profile, partner } = entry;
+    const photo = profile?.photos[0] ?? partner?.photos[0];
+    const other: DecisionType = decision === "like" ? "dislike" : "like";
+
+    return (
+      <View>
+        <View style={styles.row}>
+          <TouchableOpacity
+            accessibilityLabel={`Open ${profile?.info.name ?? "profile"}`}
+            disabled={!profile}
+            onPress={() => setOpenId(openId === entry.id ? null : entry.id)}
+            style={styles.summary}
+          >
+            {photo ? (
+              <Image source={{ uri: photo.url }} style={styles.thumbnail} />
+            ) : (
+              <View style={{ ...styles.thumbnail, ...styles.placeholder }}>
+                <FontAwesomeIcon icon={faUser} color={Colors.blue} />
+              </View>
+            )}
+
+            <View style={styles.name}>
+              <ThemedText type="defaultSemiBold">
+                {profile
+                  ? `${profile.info.name}, ${profile.info.age}`
+                  : "Profile no longer available"}
+                {partner && ` & ${partner.info.name}, ${partner.info.age}`}
+              </ThemedText>
+              {profile && (
+                <ThemedText style={styles.details}>
+                  {profile.info.type}
+                </ThemedText>
+              )}
+            </View>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            accessibilityLabel={
+              other === "like" ? "Move to liked" : "Move to disliked"
+            }
+            onPress={() => handleChange(entry, other)}
+            style={{
+              ...styles.button,
+              backgroundColor: other === "like" ? Colors.green : Colors.red,
+            }}
+          >
+            <FontAwesomeIcon
+              icon={other === "like" ? faThumbsUp : faThumbsDown}
+              style={noFocusOutline}
+            />
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            accessibilityLabel="Clear decision and return to the feed"
+            onPress={() => handleClear(entry)}
+            style={{ ...styles.button, backgroundColor: Colors.yellow }}
+          >
+            <FontAwesomeIcon icon={faRotateLeft} style={noFocusOutline} />
+          </TouchableOpacity>
+        </View>
+
+        {openId === entry.id && profile && (
+          <ProfileCard
+            profile={profile}
+            onLike={() => handleChange(entry, "like")}
+            onDislike={() => handleChange(entry, "dislike")}
+            onSkip={() => handleClear(entry)}
+            scrollToIndex={() => {}}
+          />
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <>
+      <Stack.Screen options={{ title: "Your decisions" }} />
+      <SectionList
+        contentContainerStyle={styles.content}
+        keyExtractor={(entry: HistoryEntry) => entry.id}
+        renderItem={({ item, section }) => renderEntry(item, section.decision)}
+        renderSectionHeader={({ section }) => (
+          <ThemedText type="subtitle" style={styles.sectionTitle}>
+            {section.title}
+          </ThemedText>
+        )}
+        renderSectionFooter={({ section }) =>
+          section.data.length ? null : (
+            <ThemedText style={styles.details}>Nobody yet.</ThemedText>
+          )
+        }
+        sections={sections}
+        stickySectionHeadersEnabled={false}
+        style={{ backgroundColor }}
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    alignSelf: "center",
+    maxWidth: 500,
+    padding: 20,
+    width: "100%",
+  },
+
+  sectionTitle: {
+    marginBottom: 8,
+    marginTop: 16,
+  },
+
+  row: {
+    alignItems: "center",
+    flexDirection: "row",
+    gap: 12,
+    paddingVertical: 8,
+  },
+  summary: {
+    alignItems: "center",
+    flex: 1,
+    flexDirection: "row",
+    gap: 12,
+  },
+  thumbnail: {
+    borderRadius: 28,
+    height: 56,
+    width: 56,
+  },
+  placeholder: {
+    alignItems: "center",
+    backgroundColor: Colors.tan,
+    justifyContent: "center",
+  },
+  name: {
+    flex: 1,
+  },
+  details: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+
+  button: {
+    borderRadius: 100,
+    cursor: "pointer",
+    padding: 14,
+  },
+});
@@ -0,0 +1,132 @@
+import { FeedMessage } from "@/components/FeedMessage";
+import { ProfileCard } from "@/components/ProfileCard";
+import { ProfileCardSkeleton } from "@/components/ProfileCardSkeleton";
+import { ThemedText } from "@/components/ThemedText";
+import { useProfile } from "@/hooks/useProfile";
+import { useThemeColor } from "@/hooks/useThemeColor";
+import { Profile } from "@/stores/useProfileStore";
+import { useUserStore } from "@/stores/userStore";
+import Colors from "@/styles/colors";
+import { faUserSlash } from "@fortawesome/free-solid-svg-icons/faUserSlash";
+import { Stack, useLocalSearchParams, useRouter } from "expo-router";
+import { ScrollView, StyleSheet } from "react-native";
+
+/**
+ * Page for a single profile, reached from the feed or through a deep link such as
+ * `myapp://profile/<id>` or `/profile/<id>` on web.
+ * The profile is taken from the store, or fetched when it isn't loaded.
+ */
+export default function ProfileScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+
+  const profile = useProfile(id ?? null);
+  const partner = useProfile(profile?.associated ?? null);
+
+  const { likes, dislikes, addLike, addDislike, addSkip, rememberProfiles } =
+    useUserStore();
+
+  const backgroundColor = useThemeColor(
+    { light: Colors.tanLight2, dark: Colors.tanDark2 },
+    "background",
+  );
+
+  /**
+   * Leaves the page: back to where the user came from, or to the feed when the page was
+   * opened directly.
+   */
+  const leave = (): void => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace("/");
+    }
+  };
+
+  /**
+   * Keeps copies of the profile and its partner for the history screen.
+   */
+  const remember = (): void => {
+    rememberProfiles(
+      [profile, partner].filter((entry): entry is Profile => !!entry),
+    );
+  };
+
+  if (profile === null) {
+    return (
+      <>
+        <Stack.Screen options={{ title: "Profile" }} />
+        <ScrollView
+          contentContainerStyle={styles.content}
+          style={{ backgroundColor }}
+        >
+          <FeedMessage
+            icon={faUserSlash}
+            title="Profile not found"
+            message="This profile doesn't exist or is no longer available."
+            actionLabel="Back to the feed"
+            onAction={() => router.replace("/")}
+          />
+        </ScrollView>
+      </>
+    );
+  }
+
+  const decision = !profile
+    ? null
+    : likes.includes(profile.id)
+      ? "You liked this profile."
+      : dislikes.includes(profile.id)
+        ? "You disliked this profile."
+        : null;
+
+  return (
+    <>
+      <Stack.Screen options={{ title: profile?.info.name ?? "Profile" }} />
+      <ScrollView
+        contentContainerStyle={styles.content}
+        style={{ backgroundColor }}
+      >
+        {profile ? (
+          <>
+            {decision && (
+              <ThemedText style={styles.decision}>{decision}</ThemedText>
+            )}
+            <ProfileCard
+              profile={profile}
+              onLike={() => {
+                remember();
+                addLike(profile.id, profile.associated ?? undefined);
+                leave();
+              }}
+              onDislike={() => {
+                remember();
+                addDislike(profile.id, profile.associated ?? undefined);
+                leave();
+              }}
+              onSkip={() => {
+                addSkip(profile.id, profile.associated ?? undefined);
+                leave();
+              }}
+              scrollToIndex={() => {}}
+            />
+          </>
+        ) : (
+          <ProfileCardSkeleton />
+        )}
+      </ScrollView>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    alignItems: "center",
+    padding: 20,
+  },
+
+  decision: {
+    marginBottom: 12,
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,86 @@
+import Colors from "@/styles/colors";
+import { IconDefinition } from "@fortawesome/fontawesome-svg-core";
+import { FontAwesomeIcon } from "@fortawesome/react-native-fontawesome";
+import { FC } from "react";
+import { StyleSheet, TouchableOpacity, View } from "react-native";
+import { ThemedText } from "./ThemedText";
+
+/**
+ * Props interface for the FeedMessage component.
+ */
+export interface FeedMessageProps {
+  // Icon shown above the title.
+  icon: IconDefinition;
+  // Short headline, e.g. "Couldn't load profiles".
+  title: string;
+  // One or two sentences explaining what happened.
+  message: string;
+  // Label of the action button; the button is hidden when omitted.
+  actionLabel?: string;
+  // Function to call when the action button is pressed.
+  onAction?: () => void;
+}
+
+/**
+ * Centred message shown in place of the feed, used for errors and the empty state.
+ *
+ * @component
+ * @param {FeedMessageProps} props - Properties passed to the component.
+ * @returns {React.ReactElement} An icon, title, message and optional action button.
+ */
+export const FeedMessage: FC<FeedMessageProps> = ({
+  icon,
+  title,
+  message,
+  actionLabel,
+  onAction,
+}) => (
+  <View style={styles.container}>
+    <FontAwesomeIcon icon={icon} size={40} color={Colors.blue} />
+    <ThemedText type="subtitle" style={styles.text}>
+      {title}
+    </ThemedText>
+    <ThemedText style={styles.text}>{message}</ThemedText>
+
+    {actionLabel && onAction && (
+      <TouchableOpacity
+        accessibilityRole="button"
+        onPress={onAction}
+        style={styles.button}
+      >
+        <ThemedText type="defaultSemiBold" style={styles.buttonText}>
+          {actionLabel}
+        </ThemedText>
+      </TouchableOpacity>
+    )}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: "center",
+    alignSelf: "center",
+    gap: 12,
+    maxWidth: 400,
+    paddingHorizontal: 24,
+    paddingVertical: 60,
+  },
+
+  text: {
+    textAlign: "center",
+  },
+
+  button: {
+    backgroundColor: Colors.yellow,
+    borderRadius: 100,
+    cursor: "pointer",
+    marginTop: 8,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+  },
+  buttonText: {
+    color: Colors.fontColorDark,
+  },
+});
+
+export default FeedMessage;
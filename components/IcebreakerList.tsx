@@ -0,0 +1,85 @@
+import { Icebreaker } from "@/utils/icebreakers";
+import Colors from "@/styles/colors";
+import { noFocusOutline } from "@/styles/focus";
+import { faCommentDots } from "@fortawesome/free-solid-svg-icons/faCommentDots";
+import { FontAwesomeIcon } from "@fortawesome/react-native-fontawesome";
+import { FC } from "react";
+import { StyleSheet, TouchableOpacity, View } from "react-native";
+import { ThemedText } from "./ThemedText";
+
+/**
+ * Props interface for the IcebreakerList component.
+ */
+export interface IcebreakerListProps {
+  // Suggestions, best first.
+  suggestions: Icebreaker[];
+  title: string;
+  // Function to call with a suggestion's text when it is tapped; suggestions are plain text without it.
+  onSelect?: (text: string) => void;
+}
+
+/**
+ * Lists suggested opening lines, from `suggestIcebreakers`.
+ *
+ * @component
+ * @param {IcebreakerListProps} props - Properties passed to the component.
+ * @returns {React.ReactElement} A titled list of suggestions.
+ */
+export const IcebreakerList: FC<IcebreakerListProps> = ({
+  suggestions,
+  title,
+  onSelect,
+}) => (
+  <View style={styles.container}>
+    <ThemedText style={styles.subtitle}>{title}</ThemedText>
+    {suggestions.map(({ text }: Icebreaker) => (
+      <TouchableOpacity
+        accessibilityLabel={onSelect ? `Use "${text}"` : undefined}
+        disabled={!onSelect}
+        key={text}
+        onPress={() => onSelect?.(text)}
+        style={{
+          ...styles.suggestion,
+          ...(onSelect && styles.selectable),
+        }}
+      >
+        <FontAwesomeIcon
+          icon={faCommentDots}
+          color={Colors.purple}
+          style={noFocusOutline}
+        />
+        <ThemedText style={styles.text}>{text}</ThemedText>
+      </TouchableOpacity>
+    ))}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+    marginVertical: 6,
+    paddingHorizontal: 14,
+  },
+  subtitle: {
+    fontSize: 14,
+    fontWeight: "bold",
+  },
+
+  suggestion: {
+    alignItems: "center",
+    flexDirection: "row",
+    gap: 10,
+  },
+  selectable: {
+    borderColor: Colors.purple,
+    borderRadius: 14,
+    borderWidth: 2,
+    cursor: "pointer",
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  text: {
+    flex: 1,
+    fontSize: 15,
+  },
+});
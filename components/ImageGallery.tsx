@@ -1,24 +1,118 @@
-import { FC, memo, useCallback, useEffect, useState } from "react";
-import { Dimensions, Image, View } from "react-native";
+import { FC, memo, useCallback, useEffect, useRef, useState } from "react";
+import {
+  Dimensions,
+  Image,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  StyleSheet,
+  View,
+} from "react-native";
 import {
   FlatList,
   TouchableWithoutFeedback,
 } from "react-native-gesture-handler";
-import { Photo } from "../stores/useProfileStore";
+import { photoPrefetcher } from "@/services/photoPrefetcher";
+import { Photo, useProfileStore } from "../stores/useProfileStore";
+import Colors from "../styles/colors";
+import { fitPhoto } from "@/utils/photos";
+import { PhotoPlaceholder } from "./PhotoPlaceholder";
+
+// Largest width of the gallery, matching the card.
+const GALLERY_MAX_WIDTH = 500;
+
+// Height of the gallery; photos are fitted inside it.
+const GALLERY_HEIGHT = 500;
+
+// Blur applied to the backdrop filling the space around a photo.
+const BACKDROP_BLUR = 24;
 
 export interface ImageGalleryProps {
   images: Photo[];
+  // Name whose initials stand in for missing or broken photos.
+  name: string;
   onPress: () => void;
+  // Opens the tapped image full screen; when given, it replaces `onPress`.
+  onOpenPhoto?: (index: number) => void;
+  // Called with the index of each photo paged to.
+  onPhotoView?: (index: number) => void;
 }
+
+/**
+ * A single gallery page: the photo shown whole at its own aspect ratio,
+ * over a blurred, cropped copy of itself that fills the page.
+ * A photo that fails to load is counted and replaced by a placeholder with a retry button.
+ * Memoized to prevent re-rendering of the image on scroll.
+ */
+const GalleryPage = memo(
+  ({ photo, name, width }: { photo: Photo; name: string; width: number }) => {
+    const reportPhotoFailure = useProfileStore(
+      (state) => state.reportPhotoFailure,
+    );
+    const [failed, setFailed] = useState(false);
+    // Bumped on retry, so the images are mounted and requested again.
+    const [attempt, setAttempt] = useState(0);
+
+    if (failed) {
+      return (
+        <PhotoPlaceholder
+          name={name}
+          width={width}
+          height={GALLERY_HEIGHT}
+          onRetry={() => {
+            setFailed(false);
+            setAttempt(attempt + 1);
+          }}
+        />
+      );
+    }
+
+    // The prefetched copy when there is one, so the photo shows without downloading.
+    const uri = photoPrefetcher.resolve(photo.url);
+
+    return (
+      <View style={{ ...styles.page, width }}>
+        <Image
+          key={`backdrop${attempt}`}
+          blurRadius={BACKDROP_BLUR}
+          resizeMode="cover"
+          source={{ uri }}
+          style={StyleSheet.absoluteFill}
+        />
+        <Image
+          key={`photo${attempt}`}
+          onError={() => {
+            reportPhotoFailure(photo.url);
+            setFailed(true);
+          }}
+          resizeMode="cover"
+          source={{ uri }}
+          style={fitPhoto(photo, width, GALLERY_HEIGHT)}
+        />
+      </View>
+    );
+  },
+);
+
 /**
  * ImageGallery component to display a list of images in a horizontal scroll view.
+ * Each photo is sized from its real aspect ratio, and a segmented bar shows which
+ * of several photos is on screen. Without photos, a placeholder with the initials is shown.
  *
  * @param images - An array of objects containing image details.
+ * @param name - The name whose initials stand in for missing or broken photos.
  * @param onPress - A function to handle the press event on an image.
+ * @param onOpenPhoto - A function called with the index of a tapped image, to open it full screen.
+ * @param onPhotoView - A function called with the index of each photo paged to.
  * @returns A React component that renders the image gallery.
  */
 
-export const ImageGallery: FC<ImageGalleryProps> = ({ images, onPress }) => {
+export const ImageGallery: FC<ImageGalleryProps> = ({
+  images,
+  name,
+  onPress,
+  onOpenPhoto,
+  onPhotoView,
+}) => {
   const windowDimensions = Dimensions.get("window");
   const screenDimensions = Dimensions.get("screen");
   const [dimensions, setDimensions] = useState({
@@ -26,6 +120,13 @@ export const ImageGallery: FC<ImageGalleryProps> = ({ images, onPress }) => {
     screen: screenDimensions,
   });
 
+  // Index of the photo on screen, also kept in a ref for realigning after a resize.
+  const [index, setIndex] = useState(0);
+  const indexRef = useRef(0);
+
+  // Ref for FlatList, to keep the current photo in view when the page width changes.
+  const listRef = useRef<FlatList<Photo>>(null);
+
   /**
    * Effect hook to handle dimension changes dynamically.
    * Updates state when screen or window dimensions change.
@@ -40,52 +141,74 @@ export const ImageGallery: FC<ImageGalleryProps> = ({ images, onPress }) => {
     return () => subscription?.remove();
   }, []);
 
+  // Width of each page: the card width, narrower on small windows.
+  const pageWidth = Math.min(GALLERY_MAX_WIDTH, dimensions.window.width);
+
   /**
-   * Memoized image component to prevent re-rendering of the image on scroll.
+   * Effect hook to realign the gallery on the current photo after a resize,
+   * since page offsets change with the page width.
    */
-  const MemoizedImage = memo(({ item }: { item: Photo }) => (
-    <View
-      style={{
-        backgroundColor: "white",
-        height: 500,
-        width: 500,
-        maxWidth: dimensions.screen.width,
-      }}
-    >
-      <Image
-        source={{ uri: item.url }}
-        style={{
-          height: 500,
-          left: 0,
-          maxWidth: dimensions.screen.width,
-          resizeMode: "cover",
-          top: 0,
-          width: 500,
-        }}
-      />
-    </View>
-  ));
+  useEffect(() => {
+    listRef.current?.scrollToOffset({
+      offset: indexRef.current * pageWidth,
+      animated: false,
+    });
+  }, [pageWidth]);
+
+  /**
+   * Tracks the page on screen as the gallery scrolls.
+   */
+  const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const page = Math.max(
+      0,
+      Math.min(
+        images.length - 1,
+        Math.round(event.nativeEvent.contentOffset.x / pageWidth),
+      ),
+    );
+
+    if (page !== index) {
+      indexRef.current = page;
+      setIndex(page);
+      onPhotoView?.(page);
+    }
+  };
 
   /**
-   * renderItem is wrapped with useCallback with no dependencies, so it will never change once set.
-   * This is to prevent re-rendering of the image on scroll.
+   * renderItem only changes with the page width, name and handlers, so images aren't
+   * re-rendered on scroll but are resized when the window changes.
    */
   const renderItem = useCallback(
-    ({ item }: { item: { url: string; height: number; width: number } }) => (
-      <TouchableWithoutFeedback onPress={onPress}>
-        <MemoizedImage item={item} />
+    ({ item, index: itemIndex }: { item: Photo; index: number }) => (
+      <TouchableWithoutFeedback
+        onPress={() => (onOpenPhoto ? onOpenPhoto(itemIndex) : onPress())}
+      >
+        <GalleryPage photo={item} name={name} width={pageWidth} />
       </TouchableWithoutFeedback>
     ),
-    [],
+    [pageWidth, name, onOpenPhoto, onPress],
   );
 
+  if (!images.length) {
+    return (
+      <TouchableWithoutFeedback onPress={onPress}>
+        <PhotoPlaceholder
+          name={name}
+          width={pageWidth}
+          height={GALLERY_HEIGHT}
+        />
+      </TouchableWithoutFeedback>
+    );
+  }
+
   return (
-    <View>
+    <View style={{ width: pageWidth }}>
       <FlatList
+        ref={listRef}
         data={images}
         horizontal
         pagingEnabled
-        showsHorizontalScrollIndicator
+        showsHorizontalScrollIndicator={false}
         decelerationRate="fast"
         removeClippedSubviews={false}
         scrollEnabled
@@ -93,9 +216,59 @@ export const ImageGallery: FC<ImageGalleryProps> = ({ images, onPress }) => {
         windowSize={3}
         initialNumToRender={1}
         showsVerticalScrollIndicator={false}
-        keyExtractor={(item, index) => `${index}${item.url}`}
+        keyExtractor={(item, itemIndex) => `${itemIndex}${item.url}`}
         renderItem={renderItem}
+        getItemLayout={(_, itemIndex) => ({
+          index: itemIndex,
+          length: pageWidth,
+          offset: pageWidth * itemIndex,
+        })}
+        onScroll={handleScroll}
+        scrollEventThrottle={100}
       />
+
+      {images.length > 1 && (
+        <View style={styles.progress} pointerEvents="none">
+          {images.map((image: Photo, segment: number) => (
+            <View
+              key={`${segment}${image.url}`}
+              style={{
+                ...styles.segment,
+                opacity: segment === index ? 1 : 0.45,
+              }}
+            />
+          ))}
+        </View>
+      )}
     </View>
   );
 };
+
+const styles = StyleSheet.create({
+  page: {
+    alignItems: "center",
+    backgroundColor: Colors.fontColorDark,
+    height: GALLERY_HEIGHT,
+    justifyContent: "center",
+    overflow: "hidden",
+  },
+
+  progress: {
+    flexDirection: "row",
+    gap: 4,
+    left: 10,
+    position: "absolute",
+    right: 10,
+    top: 10,
+  },
+  segment: {
+    backgroundColor: Colors.tanLight1,
+    borderRadius: 2,
+    flex: 1,
+    height: 4,
+    shadowColor: Colors.blue,
+    shadowOffset: { height: 1, width: 0 },
+    shadowOpacity: 0.4,
+    shadowRadius: 1,
+  },
+});
@@ -0,0 +1,176 @@
+import { useProfile } from "@/hooks/useProfile";
+import { useMatchesStore } from "@/stores/matchesStore";
+import { Photo } from "@/stores/useProfileStore";
+import { useUserStore } from "@/stores/userStore";
+import Colors from "@/styles/colors";
+import { faHeart } from "@fortawesome/free-solid-svg-icons/faHeart";
+import { faUser } from "@fortawesome/free-solid-svg-icons/faUser";
+import { FontAwesomeIcon } from "@fortawesome/react-native-fontawesome";
+import { useRouter } from "expo-router";
+import { FC, useEffect } from "react";
+import {
+  Image,
+  Modal,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+/**
+ * Round photo for the overlay, or an icon when there is none.
+ */
+const Avatar: FC<{ photo?: Photo; label: string }> = ({ photo, label }) =>
+  photo ? (
+    <Image
+      accessibilityLabel={label}
+      source={{ uri: photo.url }}
+      style={styles.avatar}
+    />
+  ) : (
+    <View
+      accessibilityLabel={label}
+      style={{ ...styles.avatar, ...styles.avatarPlaceholder }}
+    >
+      <FontAwesomeIcon icon={faUser} size={48} color={Colors.blue} />
+    </View>
+  );
+
+/**
+ * "It's a match" overlay, shown over any screen for each new match in turn, with the
+ * user's photo and the match's.
+ *
+ * @component
+ * @returns {React.ReactElement} A modal celebrating the oldest match not yet shown.
+ */
+export const MatchOverlay: FC = () => {
+  const { celebrations, dismissCelebrations } = useMatchesStore();
+  const ownProfile = useUserStore((state) => state.user);
+  const router = useRouter();
+
+  const matchId = celebrations[0] ?? null;
+  const profile = useProfile(matchId);
+  const partner = useProfile(profile?.associated ?? null);
+
+  // A couple matches as one: the partner's overlay is dismissed with this one.
+  const dismiss = (): void => {
+    dismissCelebrations(
+      [matchId, profile?.associated].filter((id): id is string => !!id),
+    );
+  };
+
+  /**
+   * Effect hook to skip matches whose profile can't be loaded.
+   */
+  useEffect(() => {
+    if (matchId && profile === null) {
+      dismissCelebrations([matchId]);
+    }
+  }, [matchId, profile, dismissCelebrations]);
+
+  const name = partner
+    ? `${profile?.info.name} & ${partner.info.name}`
+    : profile?.info.name;
+
+  return (
+    <Modal
+      animationType="fade"
+      onRequestClose={dismiss}
+      transparent
+      visible={!!profile}
+    >
+      <View style={styles.backdrop}>
+        <FontAwesomeIcon icon={faHeart} size={40} color={Colors.red} />
+        <Text style={styles.title}>It&apos;s a match!</Text>
+        <Text style={styles.message}>You and {name} like each other.</Text>
+
+        <View style={styles.avatars}>
+          <Avatar photo={ownProfile.photos[0]} label="Your photo" />
+          <Avatar
+            photo={profile?.photos[0] ?? partner?.photos[0]}
+            label={`Photo of ${name}`}
+          />
+        </View>
+
+        <TouchableOpacity
+          accessibilityRole="button"
+          onPress={() => {
+            dismiss();
+            router.push("/matches");
+          }}
+          style={{ ...styles.button, backgroundColor: Colors.green }}
+        >
+          <Text style={styles.buttonText}>See your matches</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          accessibilityRole="button"
+          onPress={dismiss}
+          style={{ ...styles.button, backgroundColor: Colors.tan }}
+        >
+          <Text style={styles.buttonText}>Keep swiping</Text>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+};
+
+/**
+ * StyleSheet object defining the styles for the MatchOverlay component.
+ */
+const styles = StyleSheet.create({
+  backdrop: {
+    alignItems: "center",
+    backgroundColor: "rgba(14, 14, 21, 0.9)",
+    flex: 1,
+    gap: 14,
+    justifyContent: "center",
+    padding: 24,
+  },
+
+  title: {
+    color: Colors.fontColorLight,
+    fontSize: 40,
+    fontWeight: "bold",
+    textAlign: "center",
+  },
+  message: {
+    color: Colors.tanLight1,
+    fontSize: 18,
+    textAlign: "center",
+  },
+
+  avatars: {
+    flexDirection: "row",
+    gap: 16,
+    marginBottom: 20,
+    marginTop: 20,
+  },
+  avatar: {
+    borderColor: Colors.tanLight1,
+    borderRadius: 70,
+    borderWidth: 4,
+    height: 140,
+    width: 140,
+  },
+  avatarPlaceholder: {
+    alignItems: "center",
+    backgroundColor: Colors.tan,
+    justifyContent: "center",
+  },
+
+  button: {
+    alignItems: "center",
+    borderRadius: 100,
+    cursor: "pointer",
+    maxWidth: 320,
+    paddingVertical: 14,
+    width: "100%",
+  },
+  buttonText: {
+    color: Colors.fontColorDark,
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+});
+
+export default MatchOverlay;
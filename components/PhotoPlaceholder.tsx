@@ -0,0 +1,126 @@
+import { useThemeColor } from "@/hooks/useThemeColor";
+import Colors from "@/styles/colors";
+import { noFocusOutline } from "@/styles/focus";
+import { initials } from "@/utils/photos";
+import { faRotateRight } from "@fortawesome/free-solid-svg-icons/faRotateRight";
+import { FontAwesomeIcon } from "@fortawesome/react-native-fontawesome";
+import { FC } from "react";
+import { StyleSheet, Text, View } from "react-native";
+import { TouchableOpacity } from "react-native-gesture-handler";
+
+// Colours the initials' circle is picked from, by name, so each profile keeps its own.
+const PLACEHOLDER_COLORS = [
+  Colors.green,
+  Colors.purple,
+  Colors.yellow,
+  Colors.red,
+];
+
+/**
+ * Props interface for the PhotoPlaceholder component.
+ */
+export interface PhotoPlaceholderProps {
+  // Name the initials are taken from.
+  name: string;
+  width: number;
+  height: number;
+  // Function to load the photo again; the retry button is hidden when omitted.
+  onRetry?: () => void;
+}
+
+/**
+ * Picks a colour for a name, the same one every time.
+ *
+ * @param {string} name - The name to pick a colour for.
+ */
+const colorFor = (name: string): string => {
+  const hash = [...name].reduce(
+    (total: number, character: string) => total + character.charCodeAt(0),
+    0,
+  );
+  return PLACEHOLDER_COLORS[hash % PLACEHOLDER_COLORS.length];
+};
+
+/**
+ * Stand-in for a missing or broken photo: the profile's initials on a themed background,
+ * with a button to try loading the photo again.
+ *
+ * @component
+ * @param {PhotoPlaceholderProps} props - Properties passed to the component.
+ * @returns {React.ReactElement} A placeholder the size of the photo.
+ */
+export const PhotoPlaceholder: FC<PhotoPlaceholderProps> = ({
+  name,
+  width,
+  height,
+  onRetry,
+}) => {
+  const backgroundColor = useThemeColor(
+    { light: Colors.tan, dark: Colors.tanDark1 },
+    "background",
+  );
+
+  return (
+    <View style={{ ...styles.container, backgroundColor, height, width }}>
+      <View style={{ ...styles.circle, backgroundColor: colorFor(name) }}>
+        <Text style={styles.initials}>{initials(name)}</Text>
+      </View>
+
+      {onRetry && (
+        <TouchableOpacity
+          accessibilityLabel="Photo couldn't load. Try again"
+          onPress={onRetry}
+          style={styles.retryButton}
+        >
+          <FontAwesomeIcon
+            icon={faRotateRight}
+            color={Colors.fontColorDark}
+            style={noFocusOutline}
+          />
+          <Text style={styles.retryText}>Photo couldn't load. Retry</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+/**
+ * StyleSheet object defining the styles for the PhotoPlaceholder component.
+ */
+const styles = StyleSheet.create({
+  container: {
+    alignItems: "center",
+    gap: 24,
+    justifyContent: "center",
+  },
+
+  circle: {
+    alignItems: "center",
+    borderRadius: 100,
+    height: 160,
+    justifyContent: "center",
+    width: 160,
+  },
+  initials: {
+    color: Colors.fontColorDark,
+    fontSize: 52,
+    fontWeight: "bold",
+  },
+
+  retryButton: {
+    alignItems: "center",
+    backgroundColor: Colors.yellow,
+    borderRadius: 100,
+    cursor: "pointer",
+    flexDirection: "row",
+    gap: 8,
+    paddingHorizontal: 18,
+    paddingVertical: 10,
+  },
+  retryText: {
+    color: Colors.fontColorDark,
+    fontWeight: "bold",
+  },
+});
+
+export default PhotoPlaceholder;
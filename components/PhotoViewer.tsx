@@ -0,0 +1,363 @@
+import { photoPrefetcher } from "@/services/photoPrefetcher";
+import { Photo } from "@/stores/useProfileStore";
+import Colors from "@/styles/colors";
+import { noFocusOutline } from "@/styles/focus";
+import { faXmark } from "@fortawesome/free-solid-svg-icons/faXmark";
+import { FontAwesomeIcon } from "@fortawesome/react-native-fontawesome";
+import { FC, useEffect, useState } from "react";
+import {
+  Image,
+  Modal,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  useWindowDimensions,
+  View,
+} from "react-native";
+import {
+  FlatList,
+  Gesture,
+  GestureDetector,
+  GestureHandlerRootView,
+} from "react-native-gesture-handler";
+import Animated, {
+  Extrapolation,
+  interpolate,
+  runOnJS,
+  useAnimatedStyle,
+  useSharedValue,
+  withSpring,
+  withTiming,
+} from "react-native-reanimated";
+
+// Largest zoom a pinch can reach.
+const MAX_ZOOM = 4;
+
+// Zoom applied by a double tap.
+const DOUBLE_TAP_ZOOM = 2.5;
+
+// Distance, in pixels, a photo has to be dragged down to close the viewer.
+const DISMISS_DISTANCE = 150;
+
+// Downward fling velocity, in pixels per second, that closes the viewer.
+const DISMISS_VELOCITY = 1000;
+
+/**
+ * Props interface for the PhotoViewer component.
+ */
+export interface PhotoViewerProps {
+  // Photos to page through.
+  photos: Photo[];
+  // Index of the photo shown first, or null while the viewer is closed.
+  initialIndex: number | null;
+  // Function to call when the viewer is dismissed.
+  onClose: () => void;
+}
+
+/**
+ * Props for a single zoomable page of the viewer.
+ */
+interface ZoomablePhotoProps {
+  photo: Photo;
+  width: number;
+  height: number;
+  // Whether this photo is zoomed in, which hands panning from the pager to the photo.
+  zoomed: boolean;
+  onZoomChange: (zoomed: boolean) => void;
+  onDismiss: () => void;
+}
+
+/**
+ * A photo shown whole, with pinch and double-tap zoom, panning while zoomed,
+ * and swipe-down to dismiss while not.
+ */
+const ZoomablePhoto: FC<ZoomablePhotoProps> = ({
+  photo,
+  width,
+  height,
+  zoomed,
+  onZoomChange,
+  onDismiss,
+}) => {
+  const scale = useSharedValue(1);
+  const savedScale = useSharedValue(1);
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const savedTranslateX = useSharedValue(0);
+  const savedTranslateY = useSharedValue(0);
+  const dismissY = useSharedValue(0);
+
+  // Keeps a translation within the edges of the zoomed photo.
+  const clamp = (value: number, zoom: number, size: number) => {
+    "worklet";
+    const max = (size * (zoom - 1)) / 2;
+    return Math.min(max, Math.max(-max, value));
+  };
+
+  const reset = () => {
+    "worklet";
+    scale.value = withTiming(1);
+    translateX.value = withTiming(0);
+    translateY.value = withTiming(0);
+    savedScale.value = 1;
+    savedTranslateX.value = 0;
+    savedTranslateY.value = 0;
+    runOnJS(onZoomChange)(false);
+  };
+
+  const pinch = Gesture.Pinch()
+    .onUpdate((event) => {
+      scale.value = Math.min(
+        MAX_ZOOM,
+        Math.max(0.5, savedScale.value * event.scale),
+      );
+    })
+    .onEnd(() => {
+      if (scale.value <= 1) {
+        reset();
+        return;
+      }
+
+      savedScale.value = scale.value;
+      translateX.value = withTiming(
+        clamp(translateX.value, scale.value, width),
+      );
+      translateY.value = withTiming(
+        clamp(translateY.value, scale.value, height),
+      );
+      runOnJS(onZoomChange)(true);
+    });
+
+  const doubleTap = Gesture.Tap()
+    .numberOfTaps(2)
+    .onEnd((event) => {
+      if (scale.value > 1) {
+        reset();
+        return;
+      }
+
+      // Zoom in towards the tapped point.
+      const x = clamp(
+        (width / 2 - event.x) * (DOUBLE_TAP_ZOOM - 1),
+        DOUBLE_TAP_ZOOM,
+        width,
+      );
+      const y = clamp(
+        (height / 2 - event.y) * (DOUBLE_TAP_ZOOM - 1),
+        DOUBLE_TAP_ZOOM,
+        height,
+      );
+      scale.value = withTiming(DOUBLE_TAP_ZOOM);
+      translateX.value = withTiming(x);
+      translateY.value = withTiming(y);
+      savedScale.value = DOUBLE_TAP_ZOOM;
+      savedTranslateX.value = x;
+      savedTranslateY.value = y;
+      runOnJS(onZoomChange)(true);
+    });
+
+  const pan = Gesture.Pan()
+    .enabled(zoomed)
+    .onUpdate((event) => {
+      translateX.value = clamp(
+        savedTranslateX.value + event.translationX,
+        scale.value,
+        width,
+      );
+      translateY.value = clamp(
+        savedTranslateY.value + event.translationY,
+        scale.value,
+        height,
+      );
+    })
+    .onEnd(() => {
+      savedTranslateX.value = translateX.value;
+      savedTranslateY.value = translateY.value;
+    });
+
+  // Vertical drags only, so horizontal swipes still page through the photos.
+  const dismissPan = Gesture.Pan()
+    .enabled(!zoomed)
+    .activeOffsetY([-15, 15])
+    .failOffsetX([-15, 15])
+    .onUpdate((event) => {
+      dismissY.value = Math.max(0, event.translationY);
+    })
+    .onEnd((event) => {
+      if (
+        dismissY.value > DISMISS_DISTANCE ||
+        event.velocityY > DISMISS_VELOCITY
+      ) {
+        runOnJS(onDismiss)();
+      } else {
+        dismissY.value = withSpring(0);
+      }
+    });
+
+  const photoStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateX: translateX.value },
+      { translateY: translateY.value + dismissY.value },
+      { scale: scale.value },
+    ],
+  }));
+
+  // The backdrop fades as the photo is dragged down.
+  const backdropStyle = useAnimatedStyle(() => ({
+    opacity: interpolate(
+      dismissY.value,
+      [0, DISMISS_DISTANCE * 2],
+      [1, 0.2],
+      Extrapolation.CLAMP,
+    ),
+  }));
+
+  return (
+    <GestureDetector
+      gesture={Gesture.Simultaneous(pinch, pan, dismissPan, doubleTap)}
+    >
+      <View style={{ height, width }}>
+        <Animated.View
+          style={[StyleSheet.absoluteFill, styles.backdrop, backdropStyle]}
+        />
+        <Animated.View style={[{ height, width }, photoStyle]}>
+          <Image
+            accessibilityIgnoresInvertColors
+            resizeMode="contain"
+            source={{ uri: photoPrefetcher.resolve(photo.url) }}
+            style={{ height, width }}
+          />
+        </Animated.View>
+      </View>
+    </GestureDetector>
+  );
+};
+
+/**
+ * Full-screen lightbox showing whole photos, opened on a given photo.
+ * Swipe horizontally to page, pinch or double-tap to zoom, pan while zoomed,
+ * and swipe down or press close to dismiss.
+ *
+ * @component
+ * @param {PhotoViewerProps} props - Properties passed to the component.
+ * @returns {React.ReactElement} A modal photo pager.
+ */
+export const PhotoViewer: FC<PhotoViewerProps> = ({
+  photos,
+  initialIndex,
+  onClose,
+}) => {
+  const { width, height } = useWindowDimensions();
+
+  const [index, setIndex] = useState(initialIndex ?? 0);
+  const [zoomed, setZoomed] = useState(false);
+
+  /**
+   * Effect hook to start on the tapped photo each time the viewer opens.
+   */
+  useEffect(() => {
+    if (initialIndex !== null) {
+      setIndex(initialIndex);
+      setZoomed(false);
+    }
+  }, [initialIndex]);
+
+  return (
+    <Modal
+      animationType="fade"
+      onRequestClose={onClose}
+      transparent
+      visible={initialIndex !== null}
+    >
+      {/* Gestures inside a modal need their own root view on Android. */}
+      <GestureHandlerRootView style={styles.container}>
+        {initialIndex !== null && (
+          <FlatList
+            data={photos}
+            getItemLayout={(_, itemIndex) => ({
+              index: itemIndex,
+              length: width,
+              offset: width * itemIndex,
+            })}
+            horizontal
+            initialScrollIndex={Math.min(initialIndex, photos.length - 1)}
+            keyExtractor={(item, itemIndex) => `${itemIndex}${item.url}`}
+            onScroll={(event) =>
+              setIndex(Math.round(event.nativeEvent.contentOffset.x / width))
+            }
+            pagingEnabled
+            renderItem={({ item }) => (
+              <ZoomablePhoto
+                photo={item}
+                width={width}
+                height={height}
+                zoomed={zoomed}
+                onZoomChange={setZoomed}
+                onDismiss={onClose}
+              />
+            )}
+            scrollEnabled={!zoomed}
+            scrollEventThrottle={100}
+            showsHorizontalScrollIndicator={false}
+          />
+        )}
+
+        <View style={styles.header} pointerEvents="box-none">
+          <Text style={styles.counter}>
+            {index + 1} / {photos.length}
+          </Text>
+          <TouchableOpacity
+            accessibilityLabel="Close photo viewer"
+            onPress={onClose}
+            style={styles.closeButton}
+          >
+            <FontAwesomeIcon
+              icon={faXmark}
+              color={Colors.fontColorLight}
+              size={22}
+              style={noFocusOutline}
+            />
+          </TouchableOpacity>
+        </View>
+      </GestureHandlerRootView>
+    </Modal>
+  );
+};
+
+/**
+ * StyleSheet object defining the styles for the PhotoViewer component.
+ */
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+
+  backdrop: {
+    backgroundColor: Colors.fontColorDark,
+  },
+
+  header: {
+    alignItems: "center",
+    flexDirection: "row",
+    justifyContent: "space-between",
+    left: 0,
+    paddingHorizontal: 20,
+    paddingTop: 40,
+    position: "absolute",
+    right: 0,
+    top: 0,
+  },
+  counter: {
+    color: Colors.fontColorLight,
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  closeButton: {
+    backgroundColor: "rgba(14, 14, 21, 0.6)",
+    borderRadius: 100,
+    cursor: "pointer",
+    padding: 12,
+  },
+});
+
+export default PhotoViewer;
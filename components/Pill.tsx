@@ -4,14 +4,25 @@ import Colors from "../styles/colors";
 
 interface PillProps extends ViewProps {
   pillColor: string;
+  // Outlines the pill and bolds its text, e.g. for a tag the viewer shares.
+  highlighted?: boolean;
 }
 
-export const Pill: FC<PillProps> = ({ children, pillColor, ...props }) => (
+export const Pill: FC<PillProps> = ({
+  children,
+  pillColor,
+  highlighted,
+  ...props
+}) => (
   <View
     {...props}
-    style={{ ...styles.pillContainer, backgroundColor: pillColor }}
+    style={{
+      ...styles.pillContainer,
+      ...(highlighted && styles.highlighted),
+      backgroundColor: pillColor,
+    }}
   >
-    <Text>{children}</Text>
+    <Text style={highlighted && styles.highlightedText}>{children}</Text>
   </View>
 );
 
@@ -26,4 +37,14 @@ const styles = StyleSheet.create({
     shadowOpacity: 0.3,
     shadowRadius: 1,
   },
+
+  highlighted: {
+    borderColor: Colors.blue,
+    borderWidth: 2,
+    paddingHorizontal: 12,
+    paddingVertical: 2,
+  },
+  highlightedText: {
+    fontWeight: "bold",
+  },
 });
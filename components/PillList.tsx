@@ -7,15 +7,26 @@ export interface PillListProps extends ViewProps {
   data: string[];
   title: string;
   pillColor: string;
+  // Entries of `data` to highlight, e.g. the tags the viewer shares.
+  highlighted?: string[];
 }
 
-export const PillList: FC<PillListProps> = ({ pillColor, data, title }) => {
+export const PillList: FC<PillListProps> = ({
+  pillColor,
+  data,
+  title,
+  highlighted = [],
+}) => {
   return (
     <View style={{ paddingHorizontal: 14, marginVertical: 6 }}>
       <ThemedText style={styles.subtitle}>{title}</ThemedText>
       <FlatList
         data={data}
-        renderItem={({ item }) => <Pill pillColor={pillColor}>{item}</Pill>}
+        renderItem={({ item }) => (
+          <Pill pillColor={pillColor} highlighted={highlighted.includes(item)}>
+            {item}
+          </Pill>
+        )}
         keyExtractor={(item, index) => `${index}`}
         style={styles.pillRow}
       />
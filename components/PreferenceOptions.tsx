@@ -0,0 +1,96 @@
+import Colors from "@/styles/colors";
+import { FC } from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { ThemedText } from "./ThemedText";
+
+/**
+ * Props interface for the PreferenceOptions component.
+ */
+export interface PreferenceOptionsProps {
+  // Heading shown above the options.
+  title: string;
+  // Short explanation of how the selection is applied.
+  hint: string;
+  // Values that can be selected.
+  options: string[];
+  // Values currently selected.
+  selected: string[];
+  // Colour of selected options.
+  pillColor: string;
+  // Function to call with the value of the pressed option.
+  onToggle: (value: string) => void;
+}
+
+/**
+ * A titled group of pill-shaped toggles for one preference.
+ *
+ * @component
+ * @param {PreferenceOptionsProps} props - Properties passed to the component.
+ * @returns {React.ReactElement} The option pills, selected ones filled in.
+ */
+export const PreferenceOptions: FC<PreferenceOptionsProps> = ({
+  title,
+  hint,
+  options,
+  selected,
+  pillColor,
+  onToggle,
+}) => (
+  <View style={styles.section}>
+    <ThemedText type="defaultSemiBold">{title}</ThemedText>
+    <ThemedText style={styles.hint}>{hint}</ThemedText>
+
+    <View style={styles.pillRow}>
+      {options.map((option: string) => {
+        const isSelected = selected.includes(option);
+
+        return (
+          <TouchableOpacity
+            key={option}
+            accessibilityRole="checkbox"
+            accessibilityState={{ checked: isSelected }}
+            onPress={() => onToggle(option)}
+            style={{
+              ...styles.pill,
+              backgroundColor: isSelected ? pillColor : Colors.tan,
+            }}
+          >
+            <Text>{option}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  section: {
+    gap: 6,
+    marginVertical: 10,
+  },
+
+  hint: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+
+  pillRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 10,
+    marginTop: 4,
+  },
+
+  pill: {
+    borderRadius: 50,
+    cursor: "pointer",
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    shadowColor: Colors.blue,
+    shadowOffset: { height: 1, width: 0 },
+    shadowOpacity: 0.3,
+    shadowRadius: 1,
+  },
+});
+
+export default PreferenceOptions;
@@ -1,8 +1,11 @@
 import { Profile } from "@/stores/useProfileStore";
+import { faCheck } from "@fortawesome/free-solid-svg-icons/faCheck";
+import { faForward } from "@fortawesome/free-solid-svg-icons/faForward";
+import { faShareNodes } from "@fortawesome/free-solid-svg-icons/faShareNodes";
 import { faThumbsDown } from "@fortawesome/free-solid-svg-icons/faThumbsDown";
 import { faThumbsUp } from "@fortawesome/free-solid-svg-icons/faThumbsUp";
 import { FontAwesomeIcon } from "@fortawesome/react-native-fontawesome";
-import { FC, useCallback, useEffect, useRef, useState } from "react";
+import { FC, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   LayoutChangeEvent,
   StyleSheet,
@@ -17,11 +20,20 @@ import Animated, {
   useSharedValue,
   withTiming,
 } from "react-native-reanimated";
+import { IcebreakerList } from "./IcebreakerList";
 import { ImageGallery } from "./ImageGallery";
+import { PhotoViewer } from "./PhotoViewer";
 import { PillList } from "./PillList";
 import { ThemedText } from "./ThemedText";
 import { useThemeColor } from "@/hooks/useThemeColor";
+import { usePartner } from "@/hooks/usePartner";
+import { useUserStore } from "@/stores/userStore";
+import { sharedTags } from "@/utils/compatibility";
+import { suggestIcebreakers } from "@/utils/icebreakers";
+import { shareProfileLink } from "@/utils/links";
+import { analytics } from "@/services/analytics";
 import Colors from "@/styles/colors";
+import { noFocusOutline } from "@/styles/focus";
 
 // nanoid is not supported on native due to no crypto
 // this package adds the support for nanoid
@@ -56,14 +68,28 @@ export interface ProfileCardProps {
    */
   onDislike: () => void;
 
+  /**
+   * Function to call when the "Skip" button is pressed.
+   * Moves the profile further down the feed without deciding on it.
+   */
+  onSkip: () => void;
+
   // Function to scroll to this card.
   scrollToIndex: () => void;
+
+  /**
+   * Shows the card the way other users see it, e.g. for the user's own profile:
+   * tags are not highlighted against the viewer's own, no conversation starters are
+   * suggested, and it can't be shared.
+   */
+  preview?: boolean;
 }
 
 /**
  * ProfileCard component displays a user's profile information including
  * their photo, name, age, and a brief description. It also provides
  * interactive buttons for liking, disliking, and viewing more details.
+ * For a couple, both partners are shown on the one card.
  *
  * @component
  * @param {ProfileCardProps} props - Properties passed to the component.
@@ -73,13 +99,41 @@ export const ProfileCard: FC<ProfileCardProps> = ({
   profile,
   onLike,
   onDislike,
+  onSkip,
   scrollToIndex,
+  preview = false,
 }) => {
   /**
    * State variable to manage the visibility of additional profile details.
    * Set to true when details are expanded, false otherwise.
    */
   const [detailsVisible, setDetailsVisible] = useState(false);
+
+  // The other half of a couple, null for singles and while it loads.
+  const partner = usePartner(profile);
+
+  // Index of the photo open in the full-screen viewer, or null while it is closed.
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+
+  // True briefly after the profile link was copied, where sharing isn't supported.
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  // Photos of both partners for a couple.
+  const photos = partner
+    ? [...profile.photos, ...partner.photos]
+    : profile.photos;
+
+  // The viewer's own profile details, to highlight the tags they share with this profile.
+  const ownInfo = useUserStore((state) => state.user.info);
+  const ownDesires = preview ? [] : ownInfo.desires;
+  const ownInterests = preview ? [] : ownInfo.interests;
+
+  // Opening lines for the viewer, from what the two profiles share; none in preview.
+  const icebreakers = useMemo(
+    () => (preview ? [] : suggestIcebreakers(ownInfo, profile)),
+    [preview, ownInfo, profile],
+  );
+
   const toggleRef = useRef(() => {
     scrollToIndex();
     setDetailsVisible((prev) => !prev);
@@ -125,6 +179,23 @@ export const ProfileCard: FC<ProfileCardProps> = ({
     "background",
   );
 
+  /**
+   * Shares a link to the profile's page, or copies it where sharing isn't supported.
+   */
+  const handleShare = async (): Promise<void> => {
+    try {
+      const result = await shareProfileLink(profile.id, profile.info.name);
+
+      if (result === "copied") {
+        setLinkCopied(true);
+        setTimeout(() => setLinkCopied(false), 2000);
+      }
+    } catch (error: unknown) {
+      // Also reached when the share sheet is dismissed on web.
+      console.warn("Profile link not shared:", error);
+    }
+  };
+
   // Handle layout event to measure the content's height
   const handleContentLayout = useCallback((event: LayoutChangeEvent) => {
     const { height } = event.nativeEvent.layout;
@@ -133,10 +204,13 @@ export const ProfileCard: FC<ProfileCardProps> = ({
 
   /**
    * Effect hook to initialize animation values when `detailsVisible` is toggled.
-   * Ensures the expanded details area appears smoothly.
+   * Ensures the expanded details area appears smoothly, and records each expansion.
    */
   useEffect(() => {
     if (detailsVisible) {
+      if (!preview) {
+        analytics.track({ type: "details_expand", profileId: profile.id });
+      }
       detailsPaddingBottom.value = withTiming(
         contentHeightRef.current + 14,
         config,
@@ -179,7 +253,45 @@ export const ProfileCard: FC<ProfileCardProps> = ({
         }}
       /> */}
 
-      <ImageGallery images={profile.photos} onPress={toggleRef.current} />
+      <ImageGallery
+        images={photos}
+        name={
+          partner
+            ? `${profile.info.name} & ${partner.info.name}`
+            : profile.info.name
+        }
+        onPress={toggleRef.current}
+        onOpenPhoto={setViewerIndex}
+        onPhotoView={(index: number) => {
+          if (!preview) {
+            analytics.track({
+              type: "photo_view",
+              profileId: profile.id,
+              photoIndex: index,
+              photoCount: photos.length,
+            });
+          }
+        }}
+      />
+      <PhotoViewer
+        photos={photos}
+        initialIndex={viewerIndex}
+        onClose={() => setViewerIndex(null)}
+      />
+
+      {!preview && (
+        <TouchableOpacity
+          accessibilityLabel={linkCopied ? "Link copied" : "Share profile"}
+          onPress={handleShare}
+          style={styles.shareButton}
+        >
+          <FontAwesomeIcon
+            icon={linkCopied ? faCheck : faShareNodes}
+            color={Colors.fontColorLight}
+            style={noFocusOutline}
+          />
+        </TouchableOpacity>
+      )}
 
       <View>
         <TouchableWithoutFeedback
@@ -192,11 +304,22 @@ export const ProfileCard: FC<ProfileCardProps> = ({
                 <Text style={styles.name}>
                   {profile.info.name},&nbsp;
                   <Text style={styles.age}>{profile.info.age}</Text>
+                  {partner && (
+                    <>
+                      {" & "}
+                      {partner.info.name},&nbsp;
+                      <Text style={styles.age}>{partner.info.age}</Text>
+                    </>
+                  )}
                 </Text>
 
                 <View style={{ ...styles.row, ...styles.detailsContainer }}>
                   <Text style={styles.details}>{profile.info.type}</Text>
-                  <Text style={styles.details}>{profile.info.gender}</Text>
+                  <Text style={styles.details}>
+                    {partner
+                      ? `${profile.info.gender} & ${partner.info.gender}`
+                      : profile.info.gender}
+                  </Text>
                   <Text style={styles.details}>{profile.info.sexuality}</Text>
                 </View>
               </View>
@@ -206,7 +329,7 @@ export const ProfileCard: FC<ProfileCardProps> = ({
                   alignContent: "center",
                   alignItems: "center",
                   flexDirection: "row",
-                  gap: 20,
+                  gap: 14,
                   height: "100%",
                   minHeight: "100%",
                 }}
@@ -215,22 +338,22 @@ export const ProfileCard: FC<ProfileCardProps> = ({
                   onPress={onDislike}
                   style={{ ...styles.button, backgroundColor: Colors.red }}
                 >
-                  <FontAwesomeIcon
-                    icon={faThumbsDown}
-                    // Type '{ outline?: string | undefined; }' is not assignable to type 'ViewStyle | TextStyle | ImageStyle'.
-                    // However, the FontAwesome SVG gets an outline on focus in web.
-                    style={{ outline: "none" }}
-                  />
+                  <FontAwesomeIcon icon={faThumbsDown} style={noFocusOutline} />
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                  accessibilityLabel="Skip"
+                  onPress={onSkip}
+                  style={{ ...styles.button, backgroundColor: Colors.yellow }}
+                >
+                  <FontAwesomeIcon icon={faForward} style={noFocusOutline} />
                 </TouchableOpacity>
 
                 <TouchableOpacity
                   onPress={onLike}
                   style={{ ...styles.button, backgroundColor: Colors.green }}
                 >
-                  <FontAwesomeIcon
-                    icon={faThumbsUp}
-                    style={{ outline: "none" }}
-                  />
+                  <FontAwesomeIcon icon={faThumbsUp} style={noFocusOutline} />
                 </TouchableOpacity>
               </View>
             </View>
@@ -248,18 +371,37 @@ export const ProfileCard: FC<ProfileCardProps> = ({
           >
             <ThemedText style={styles.subtitle}>About</ThemedText>
             <ThemedText style={styles.about}>{profile.info.about}</ThemedText>
+
+            {partner && (
+              <>
+                <ThemedText style={styles.subtitle}>
+                  About {partner.info.name}
+                </ThemedText>
+                <ThemedText style={styles.about}>
+                  {partner.info.about}
+                </ThemedText>
+              </>
+            )}
           </View>
 
           <PillList
             data={profile.info.desires}
             title="Desires"
             pillColor={Colors.purple}
+            highlighted={sharedTags(profile.info.desires, ownDesires)}
           />
           <PillList
             data={profile.info.interests}
             title="Interests"
             pillColor={Colors.yellow}
+            highlighted={sharedTags(profile.info.interests, ownInterests)}
           />
+          {icebreakers.length > 0 && (
+            <IcebreakerList
+              suggestions={icebreakers}
+              title="Conversation starters"
+            />
+          )}
         </View>
       </Animated.View>
     </View>
@@ -290,6 +432,17 @@ const styles = StyleSheet.create({
     position: "relative",
   },
 
+  shareButton: {
+    backgroundColor: "rgba(61, 64, 91, 0.6)",
+    borderRadius: 100,
+    cursor: "pointer",
+    padding: 12,
+    position: "absolute",
+    right: 10,
+    top: 24,
+    zIndex: 6,
+  },
+
   /**
    * Style for the name and age text.
    * Uses bold font for prominence.
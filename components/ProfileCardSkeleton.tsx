@@ -0,0 +1,132 @@
+import { useThemeColor } from "@/hooks/useThemeColor";
+import Colors from "@/styles/colors";
+import { FC, useEffect } from "react";
+import { StyleSheet, View } from "react-native";
+import Animated, {
+  Easing,
+  useAnimatedStyle,
+  useSharedValue,
+  withRepeat,
+  withTiming,
+} from "react-native-reanimated";
+
+/**
+ * Placeholder shaped like a `ProfileCard`, shown while the feed loads.
+ * The photo and basics bar pulse until the real card replaces it.
+ *
+ * @component
+ * @returns {React.ReactElement} A pulsing card outline.
+ */
+export const ProfileCardSkeleton: FC = () => {
+  const opacity = useSharedValue(1);
+
+  const cardBackgroundColor = useThemeColor(
+    { light: Colors.tanLight2, dark: Colors.tanDark2Alt },
+    "background",
+  );
+  const blockColor = useThemeColor(
+    { light: Colors.tan, dark: Colors.tanDark1 },
+    "background",
+  );
+
+  /**
+   * Effect hook to start the pulse, fading between full and half opacity indefinitely.
+   */
+  useEffect(() => {
+    opacity.value = withRepeat(
+      withTiming(0.5, { duration: 800, easing: Easing.inOut(Easing.ease) }),
+      -1,
+      true,
+    );
+  }, []);
+
+  const animatedStyles = useAnimatedStyle(() => ({
+    opacity: opacity.value,
+  }));
+
+  return (
+    <View
+      accessibilityLabel="Loading profile"
+      style={{ ...styles.card, backgroundColor: cardBackgroundColor }}
+    >
+      <Animated.View
+        style={[styles.photo, { backgroundColor: blockColor }, animatedStyles]}
+      />
+
+      <View style={styles.basicsContainer}>
+        <View style={{ flexShrink: 1, gap: 10 }}>
+          <Animated.View style={[styles.name, animatedStyles]} />
+          <Animated.View style={[styles.details, animatedStyles]} />
+        </View>
+
+        <View style={styles.buttons}>
+          {[Colors.red, Colors.yellow, Colors.green].map((color) => (
+            <Animated.View
+              key={color}
+              style={[
+                styles.button,
+                { backgroundColor: color },
+                animatedStyles,
+              ]}
+            />
+          ))}
+        </View>
+      </View>
+    </View>
+  );
+};
+
+/**
+ * StyleSheet object defining the styles for the ProfileCardSkeleton component.
+ * Sizes mirror `ProfileCard` so the feed doesn't jump when profiles arrive.
+ */
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 10,
+    marginBottom: 15,
+    maxWidth: "100%",
+    overflow: "hidden",
+    width: 500,
+  },
+
+  photo: {
+    height: 500,
+    width: "100%",
+  },
+
+  basicsContainer: {
+    alignItems: "center",
+    backgroundColor: "rgba(61, 64, 91, 0.45)",
+    bottom: 0,
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    position: "absolute",
+    width: "100%",
+  },
+  name: {
+    backgroundColor: Colors.tanLight1,
+    borderRadius: 6,
+    height: 28,
+    width: 160,
+  },
+  details: {
+    backgroundColor: Colors.tan,
+    borderRadius: 6,
+    height: 18,
+    width: 220,
+  },
+
+  buttons: {
+    flexDirection: "row",
+    gap: 14,
+  },
+  button: {
+    borderRadius: 100,
+    height: 64,
+    width: 64,
+  },
+});
+
+export default ProfileCardSkeleton;
@@ -1,33 +1,262 @@
+import { useCardTracking } from "@/hooks/useCardTracking";
+import { usePhotoPrefetch } from "@/hooks/usePhotoPrefetch";
 import { useThemeColor } from "@/hooks/useThemeColor";
 import { Profile, useProfileStore } from "@/stores/useProfileStore";
 import Colors from "@/styles/colors";
-import { FC, useRef } from "react";
-import { View, ViewProps } from "react-native";
+import { noFocusOutline } from "@/styles/focus";
+import { faArrowRotateLeft } from "@fortawesome/free-solid-svg-icons/faArrowRotateLeft";
+import { faClockRotateLeft } from "@fortawesome/free-solid-svg-icons/faClockRotateLeft";
+import { faCircleCheck } from "@fortawesome/free-solid-svg-icons/faCircleCheck";
+import { faLayerGroup } from "@fortawesome/free-solid-svg-icons/faLayerGroup";
+import { faList } from "@fortawesome/free-solid-svg-icons/faList";
+import { faLock } from "@fortawesome/free-solid-svg-icons/faLock";
+import { faSliders } from "@fortawesome/free-solid-svg-icons/faSliders";
+import { faShuffle } from "@fortawesome/free-solid-svg-icons/faShuffle";
+import { faStar } from "@fortawesome/free-solid-svg-icons/faStar";
+import { faServer } from "@fortawesome/free-solid-svg-icons/faServer";
+import { faTriangleExclamation } from "@fortawesome/free-solid-svg-icons/faTriangleExclamation";
+import { faWifi } from "@fortawesome/free-solid-svg-icons/faWifi";
+import { FontAwesomeIcon } from "@fortawesome/react-native-fontawesome";
+import { FC, useEffect, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+  ViewProps,
+  ViewToken,
+} from "react-native";
 import { FlatList } from "react-native-gesture-handler";
 import { ProfileCard } from "./ProfileCard";
+import { ProfileCardSkeleton } from "./ProfileCardSkeleton";
+import { FeedMessage, FeedMessageProps } from "./FeedMessage";
+import { ThemedText } from "./ThemedText";
+import { SwipeDeck } from "./SwipeDeck";
 import { useUserStore } from "@/stores/userStore";
+import {
+  FEED_PREFETCH_THRESHOLD,
+  SKIP_RESURFACE_AFTER,
+} from "@/constants/Feed";
+import { orderFeed } from "@/utils/feed";
+import { collapseCouples } from "@/utils/couples";
+import { matchesPreferences } from "@/utils/preferences";
+import { rankNewProfiles } from "@/utils/compatibility";
+import { usePreferencesStore } from "@/stores/preferencesStore";
+import { Link, useRouter } from "expo-router";
+import { ApiErrorCategory } from "@/services/apiClient";
+import { photoPrefetcher } from "@/services/photoPrefetcher";
+import { analytics } from "@/services/analytics";
+
+/**
+ * Layouts the feed can be shown in: a scrolling list or a stack of swipeable cards.
+ */
+export type FeedMode = "list" | "deck";
+
+// Number of placeholder cards shown while the feed loads.
+const SKELETON_COUNT = 2;
+
+// A card counts as on screen, for impressions and dwell time, once half of it is visible.
+const VIEWABILITY_CONFIG = { itemVisiblePercentThreshold: 50 };
+
+/**
+ * Copy for the error view, per failure category. Cancelled requests are never shown.
+ */
+const ERROR_MESSAGES: Record<
+  Exclude<ApiErrorCategory, "cancelled">,
+  Pick<FeedMessageProps, "icon" | "title" | "message">
+> = {
+  network: {
+    icon: faWifi,
+    title: "You're offline",
+    message:
+      "We couldn't reach the server. Check your connection and try again.",
+  },
+  auth: {
+    icon: faLock,
+    title: "Session expired",
+    message:
+      "Your session is no longer valid. Restart the app to sign in again.",
+  },
+  server: {
+    icon: faServer,
+    title: "Something went wrong",
+    message:
+      "The server had a problem loading profiles. Try again in a moment.",
+  },
+  parse: {
+    icon: faTriangleExclamation,
+    title: "Couldn't read profiles",
+    message: "The server sent something unexpected. Try again in a moment.",
+  },
+};
 
 export const ProfileList: FC<ViewProps> = () => {
-  const { profiles, isLoading } = useProfileStore();
-  const { addLike, addDislike, likes, dislikes } = useUserStore();
+  const {
+    profiles,
+    fetchedProfiles,
+    isLoading,
+    isFetchingMore,
+    isRefreshing,
+    hasMore,
+    error,
+    errorCategory,
+    fetchProfiles,
+    fetchMoreProfiles,
+    refreshProfiles,
+    cancelFetches,
+  } = useProfileStore();
+  const {
+    addLike,
+    addDislike,
+    addSkip,
+    likes,
+    dislikes,
+    skipped,
+    history,
+    hasHydrated,
+    undo,
+    user,
+    rememberProfiles,
+  } = useUserStore();
+  const {
+    preferences,
+    ordering,
+    setOrdering,
+    hasHydrated: preferencesHydrated,
+  } = usePreferencesStore();
+
+  const router = useRouter();
 
   // Ref for FlatList to pass through methods.
   const flatListRef = useRef<FlatList<Profile>>(null);
 
+  // ID of a profile brought back by undo, scrolled to once it is rendered again.
+  const [restoredId, setRestoredId] = useState<string | null>(null);
+
+  const [mode, setMode] = useState<FeedMode>("list");
+
+  // IDs of the profiles whose cards are on screen in list mode.
+  const [visibleIds, setVisibleIds] = useState<string[]>([]);
+
+  // Stable handler, since FlatList doesn't allow changing it on the fly.
+  const handleViewableItemsChanged = useRef(
+    ({ viewableItems }: { viewableItems: ViewToken[] }) =>
+      setVisibleIds(
+        viewableItems.map((token: ViewToken) => (token.item as Profile).id),
+      ),
+  );
+
   const backgroundColor = useThemeColor(
     { light: Colors.tanLight2, dark: Colors.tanDark2 },
     "background",
   );
 
+  // Order of the last "best match" ranking, and what it was ranked against. Profiles keep
+  // their place in it as batches arrive; it starts over when the viewer's tags or age range change.
+  const rankingRef = useRef<{ key: string; ids: string[] }>({
+    key: "",
+    ids: [],
+  });
+
+  /**
+   * Profiles neither liked nor disliked, ranked by compatibility with the viewer in "best match"
+   * ordering, or kept in the random order they arrived in. Only newly loaded profiles are
+   * ranked, so a batch appended while scrolling never lands above the user's position.
+   */
+  const rankedProfiles = (() => {
+    const isUndecided = (profile: Profile) =>
+      !likes.includes(profile.id) && !dislikes.includes(profile.id);
+
+    if (ordering !== "best") {
+      return profiles.filter(isUndecided);
+    }
+
+    const viewer = {
+      desires: user.info.desires,
+      interests: user.info.interests,
+      preferences,
+    };
+    const key = JSON.stringify([
+      viewer.desires,
+      viewer.interests,
+      preferences.minAge,
+      preferences.maxAge,
+    ]);
+    // Decided profiles are ranked too, so undo puts them back where they were.
+    const ranked = rankNewProfiles(
+      profiles,
+      rankingRef.current.key === key ? rankingRef.current.ids : [],
+      viewer,
+    );
+    rankingRef.current = {
+      key,
+      ids: ranked.map((profile: Profile) => profile.id),
+    };
+
+    return ranked.filter(isUndecided);
+  })();
+
+  /**
+   * Deprioritise skipped profiles. Nothing is shown until saved decisions and preferences
+   * have loaded, so decided or unwanted profiles never flash in.
+   */
+  const orderedProfiles =
+    !hasHydrated || !preferencesHydrated
+      ? []
+      : orderFeed(rankedProfiles, skipped, history, SKIP_RESURFACE_AFTER);
+
+  /**
+   * Apply the discovery preferences to each partner before showing each couple once, so a
+   * couple is shown when either partner matches, and count the feed entries they hide.
+   */
+  const filteredProfiles = collapseCouples(
+    orderedProfiles.filter((profile: Profile) =>
+      matchesPreferences(profile, preferences),
+    ),
+  );
+  const hiddenCount =
+    collapseCouples(orderedProfiles).length - filteredProfiles.length;
+
+  usePhotoPrefetch(filteredProfiles);
+
+  // In deck mode only the top card is on screen.
+  useCardTracking(
+    mode === "deck"
+      ? filteredProfiles.slice(0, 1).map((profile: Profile) => profile.id)
+      : visibleIds,
+  );
+
   /**
-   * Filter profiles to exclude those already liked or disliked.
+   * Looks up the partner of a couple, so a decision covers both halves.
+   *
+   * @param {string} id - The unique identifier of the decided profile.
+   * @returns The partner's ID, or undefined for singles.
    */
-  const filteredProfiles = profiles.length
-    ? profiles.filter(
-        (profile: Profile) =>
-          !likes.includes(profile.id) && !dislikes.includes(profile.id),
-      )
-    : profiles;
+  const partnerOf = (id: string): string | undefined =>
+    profiles.find((profile: Profile) => profile.id === id)?.associated ??
+    undefined;
+
+  /**
+   * Keeps copies of a decided profile and its partner, so they can be reviewed on the history screen,
+   * and stops prefetching their photos.
+   *
+   * @param {string} id - The unique identifier of the decided profile.
+   */
+  const remember = (id: string): void => {
+    const partnerId = partnerOf(id);
+    photoPrefetcher.cancel(
+      [id, partnerId].filter((entry) => !!entry) as string[],
+    );
+
+    rememberProfiles(
+      [
+        profiles.find((profile: Profile) => profile.id === id),
+        partnerId &&
+          (profiles.find((profile: Profile) => profile.id === partnerId) ??
+            fetchedProfiles[partnerId]),
+      ].filter((profile): profile is Profile => !!profile),
+    );
+  };
 
   /**
    * Handler function to like a profile.
@@ -35,9 +264,9 @@ export const ProfileList: FC<ViewProps> = () => {
    * @param {string} id - The unique identifier of the profile to like.
    */
   const handleLike = (id: string): void => {
-    console.log("like", id);
-    addLike(id);
-    // likeProfile(id);
+    analytics.track({ type: "decision", profileId: id, decision: "like" });
+    remember(id);
+    addLike(id, partnerOf(id));
   };
 
   /**
@@ -46,9 +275,37 @@ export const ProfileList: FC<ViewProps> = () => {
    * @param {string} id - The unique identifier of the profile to dislike.
    */
   const handleDislike = (id: string): void => {
-    console.log("dislike", id);
-    addDislike(id);
-    // dislikeProfile(id);
+    analytics.track({ type: "decision", profileId: id, decision: "dislike" });
+    remember(id);
+    addDislike(id, partnerOf(id));
+  };
+
+  /**
+   * Handler function to skip a profile without deciding.
+   *
+   * @param {string} id - The unique identifier of the profile to skip.
+   */
+  const handleSkip = (id: string): void => {
+    analytics.track({ type: "decision", profileId: id, decision: "skip" });
+    addSkip(id, partnerOf(id));
+  };
+
+  /**
+   * Handler function to undo the most recent decision.
+   * The profile returns to its original position in the feed, since the feed is
+   * derived from the unchanged profile order.
+   */
+  const handleUndo = (): void => {
+    const undone = undo();
+
+    if (undone) {
+      analytics.track({
+        type: "decision",
+        profileId: undone.profileId,
+        decision: "undo",
+      });
+      setRestoredId(undone.profileId);
+    }
   };
 
   // Function to scroll to a specific index
@@ -63,35 +320,296 @@ export const ProfileList: FC<ViewProps> = () => {
   };
 
   /**
-   * Renders the main list of profile cards using `FlatList`.
+   * Effect hook to scroll to a restored profile once it is back in the filtered list.
+   */
+  useEffect(() => {
+    if (!restoredId) {
+      return;
+    }
+
+    const index = filteredProfiles.findIndex(
+      (profile: Profile) => profile.id === restoredId,
+    );
+
+    if (index !== -1) {
+      scrollToIndex(index);
+    }
+    setRestoredId(null);
+  }, [restoredId, filteredProfiles]);
+
+  /**
+   * Effect hook to cancel requests still in flight when the feed unmounts.
+   */
+  useEffect(() => cancelFetches, [cancelFetches]);
+
+  /**
+   * Effect hook to request the next batch when few undecided profiles remain.
+   * Covers deck mode and lists too short to scroll, where `onEndReached` never fires.
+   * Runs again after each batch, so batches without new profiles are followed by another
+   * until the pool is exhausted; a failed batch waits for the retry in the error view.
+   */
+  useEffect(() => {
+    if (
+      hasHydrated &&
+      hasMore &&
+      !isFetchingMore &&
+      !error &&
+      profiles.length &&
+      filteredProfiles.length < FEED_PREFETCH_THRESHOLD
+    ) {
+      fetchMoreProfiles();
+    }
+  }, [
+    hasHydrated,
+    hasMore,
+    isFetchingMore,
+    error,
+    profiles.length,
+    filteredProfiles.length,
+    fetchMoreProfiles,
+  ]);
+
+  /**
+   * Error view for the last failed fetch, with a retry.
+   * With nothing loaded the feed starts over; otherwise the failed batch is requested again.
+   */
+  const renderError = () => {
+    const copy =
+      errorCategory && errorCategory !== "cancelled"
+        ? ERROR_MESSAGES[errorCategory]
+        : ERROR_MESSAGES.network;
+
+    return (
+      <FeedMessage
+        {...copy}
+        actionLabel="Try again"
+        onAction={() =>
+          profiles.length ? fetchMoreProfiles() : fetchProfiles()
+        }
+      />
+    );
+  };
+
+  /**
+   * Shown in place of the feed when there are no cards: loading skeletons, the error view,
+   * or the empty state once everything has been decided.
+   */
+  const renderEmpty = () => {
+    if (!hasHydrated || !preferencesHydrated || isLoading || isFetchingMore) {
+      return (
+        <View>
+          {Array.from({ length: SKELETON_COUNT }, (_, index) => (
+            <ProfileCardSkeleton key={index} />
+          ))}
+        </View>
+      );
+    }
+
+    if (error) {
+      return renderError();
+    }
+
+    if (hiddenCount) {
+      return (
+        <FeedMessage
+          icon={faSliders}
+          title="No matches right now"
+          message={`${hiddenCount} ${hiddenCount === 1 ? "profile is" : "profiles are"} hidden by your preferences. Widen them to see more people.`}
+          actionLabel="Edit preferences"
+          onAction={() => router.push("/explore")}
+        />
+      );
+    }
+
+    return (
+      <FeedMessage
+        icon={faCircleCheck}
+        title="You're all caught up"
+        message="You've decided on everyone for now. Check again later for new profiles."
+        actionLabel="Check again"
+        onAction={refreshProfiles}
+      />
+    );
+  };
+
+  /**
+   * Footer for the list: a spinner while the next batch loads, the error view when it failed,
+   * or a note once the pool is exhausted.
+   */
+  const renderFooter = () => {
+    if (!filteredProfiles.length) {
+      return null;
+    }
+
+    if (isFetchingMore) {
+      return <ActivityIndicator size="large" style={styles.footer} />;
+    }
+
+    if (error) {
+      return renderError();
+    }
+
+    if (!hasMore) {
+      return (
+        <ThemedText style={styles.footer}>You&apos;ve seen everyone</ThemedText>
+      );
+    }
+
+    return null;
+  };
+
+  /**
+   * Renders the main list of profile cards using `FlatList`, or the swipe deck in deck mode.
    * Maps each profile to a `ProfileCard` component, providing handlers for like, dislike, and details actions.
    */
   return (
-    <View style={{ backgroundColor }}>
-      <FlatList
-        data={filteredProfiles as Profile[]}
-        decelerationRate="fast"
-        initialNumToRender={2}
-        keyExtractor={(item) => `${item.id}`}
-        nestedScrollEnabled
-        ref={flatListRef}
-        scrollEnabled
-        scrollEventThrottle={16}
-        shouldActivateOnStart
-        showsHorizontalScrollIndicator={false}
-        showsVerticalScrollIndicator
-        style={{ margin: "auto" }}
-        renderItem={({ item, index }) => (
-          <ProfileCard
-            profile={item}
-            onLike={() => handleLike(item.id)}
-            onDislike={() => handleDislike(item.id)}
-            scrollToIndex={() => scrollToIndex(index)}
+    <View style={{ backgroundColor, flex: 1 }}>
+      {hiddenCount > 0 && filteredProfiles.length > 0 && (
+        <Link href="/explore" style={styles.hiddenNotice}>
+          <ThemedText style={styles.hiddenNoticeText}>
+            {hiddenCount} {hiddenCount === 1 ? "profile" : "profiles"} hidden by
+            your preferences
+          </ThemedText>
+        </Link>
+      )}
+
+      {mode === "deck" ? (
+        filteredProfiles.length ? (
+          <SwipeDeck
+            profiles={filteredProfiles}
+            onLike={handleLike}
+            onDislike={handleDislike}
+            onSkip={handleSkip}
           />
-        )}
-      />
+        ) : (
+          renderEmpty()
+        )
+      ) : (
+        <FlatList
+          data={filteredProfiles as Profile[]}
+          decelerationRate="fast"
+          initialNumToRender={2}
+          keyExtractor={(item) => `${item.id}`}
+          nestedScrollEnabled
+          ref={flatListRef}
+          scrollEnabled
+          scrollEventThrottle={16}
+          shouldActivateOnStart
+          showsHorizontalScrollIndicator={false}
+          showsVerticalScrollIndicator
+          style={{ margin: "auto" }}
+          onEndReached={() => fetchMoreProfiles()}
+          onEndReachedThreshold={1.5}
+          ListFooterComponent={renderFooter}
+          ListEmptyComponent={renderEmpty}
+          refreshing={isRefreshing}
+          onRefresh={refreshProfiles}
+          onViewableItemsChanged={handleViewableItemsChanged.current}
+          viewabilityConfig={VIEWABILITY_CONFIG}
+          onScrollToIndexFailed={({ index, averageItemLength }) => {
+            // The target cell isn't measured yet; jump close to it, then retry.
+            flatListRef.current?.scrollToOffset({
+              offset: index * averageItemLength,
+              animated: false,
+            });
+            setTimeout(() => scrollToIndex(index), 100);
+          }}
+          renderItem={({ item, index }) => (
+            <ProfileCard
+              profile={item}
+              onLike={() => handleLike(item.id)}
+              onDislike={() => handleDislike(item.id)}
+              onSkip={() => handleSkip(item.id)}
+              scrollToIndex={() => scrollToIndex(index)}
+            />
+          )}
+        />
+      )}
+
+      <View style={styles.actions}>
+        <TouchableOpacity
+          accessibilityLabel={
+            mode === "list" ? "Switch to deck mode" : "Switch to list mode"
+          }
+          onPress={() => setMode(mode === "list" ? "deck" : "list")}
+          style={styles.actionButton}
+        >
+          <FontAwesomeIcon
+            icon={mode === "list" ? faLayerGroup : faList}
+            style={noFocusOutline}
+          />
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          accessibilityLabel={
+            ordering === "best"
+              ? "Show profiles in random order"
+              : "Show best matches first"
+          }
+          onPress={() => setOrdering(ordering === "best" ? "random" : "best")}
+          style={styles.actionButton}
+        >
+          <FontAwesomeIcon
+            icon={ordering === "best" ? faShuffle : faStar}
+            style={noFocusOutline}
+          />
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          accessibilityLabel="Review your decisions"
+          onPress={() => router.push("/history")}
+          style={styles.actionButton}
+        >
+          <FontAwesomeIcon icon={faClockRotateLeft} style={noFocusOutline} />
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          accessibilityLabel="Undo last decision"
+          disabled={!history.length}
+          onPress={handleUndo}
+          style={{ ...styles.actionButton, opacity: history.length ? 1 : 0.4 }}
+        >
+          <FontAwesomeIcon icon={faArrowRotateLeft} style={noFocusOutline} />
+        </TouchableOpacity>
+      </View>
     </View>
   );
 };
 
+const styles = StyleSheet.create({
+  footer: {
+    marginVertical: 30,
+    textAlign: "center",
+  },
+
+  hiddenNotice: {
+    backgroundColor: Colors.tan,
+    paddingVertical: 8,
+    textAlign: "center",
+  },
+  hiddenNoticeText: {
+    color: Colors.fontColorDark,
+    fontSize: 14,
+  },
+
+  actions: {
+    bottom: 20,
+    gap: 12,
+    position: "absolute",
+    right: 20,
+    zIndex: 10,
+  },
+
+  actionButton: {
+    backgroundColor: Colors.yellow,
+    borderRadius: 100,
+    cursor: "pointer",
+    padding: 18,
+    shadowColor: Colors.blue,
+    shadowOffset: { height: 2, width: 0 },
+    shadowOpacity: 0.3,
+    shadowRadius: 3,
+  },
+});
+
 export default ProfileList;
@@ -0,0 +1,325 @@
+import { Profile } from "@/stores/useProfileStore";
+import Colors from "@/styles/colors";
+import { FC, useCallback, useState } from "react";
+import { StyleSheet, Text, useWindowDimensions, View } from "react-native";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+import Animated, {
+  Extrapolation,
+  interpolate,
+  runOnJS,
+  useAnimatedStyle,
+  useSharedValue,
+  withSpring,
+  withTiming,
+} from "react-native-reanimated";
+import { ProfileCard } from "./ProfileCard";
+
+/**
+ * Direction a card leaves the deck in.
+ * Right likes, left dislikes and up skips.
+ */
+export type SwipeDirection = "left" | "right" | "up";
+
+// Distance in pixels a card has to be dragged before release counts as a swipe.
+const SWIPE_DISTANCE_THRESHOLD = 120;
+// Release velocity in pixels per second that counts as a swipe regardless of distance.
+const SWIPE_VELOCITY_THRESHOLD = 800;
+// Maximum card rotation, in degrees, reached at half the screen width.
+const MAX_ROTATION = 15;
+// Number of cards rendered in the stack at once.
+const VISIBLE_CARDS = 3;
+
+/**
+ * Decides whether a released drag is a swipe, and in which direction.
+ * Horizontal swipes take precedence over swiping up.
+ *
+ * @returns The swipe direction, or null when the card should spring back.
+ */
+export const resolveSwipeDirection = (
+  translationX: number,
+  translationY: number,
+  velocityX: number,
+  velocityY: number,
+): SwipeDirection | null => {
+  "worklet";
+  if (
+    translationX > SWIPE_DISTANCE_THRESHOLD ||
+    velocityX > SWIPE_VELOCITY_THRESHOLD
+  ) {
+    return "right";
+  }
+  if (
+    translationX < -SWIPE_DISTANCE_THRESHOLD ||
+    velocityX < -SWIPE_VELOCITY_THRESHOLD
+  ) {
+    return "left";
+  }
+  if (
+    translationY < -SWIPE_DISTANCE_THRESHOLD ||
+    velocityY < -SWIPE_VELOCITY_THRESHOLD
+  ) {
+    return "up";
+  }
+  return null;
+};
+
+interface SwipeCardProps {
+  profile: Profile;
+  // Position in the stack, 0 being the card on top.
+  depth: number;
+  onSwipe: (direction: SwipeDirection) => void;
+}
+
+/**
+ * A single draggable card in the deck.
+ * Rotates and shows a label while dragged, flies out past the thresholds and springs back otherwise.
+ */
+const SwipeCard: FC<SwipeCardProps> = ({ profile, depth, onSwipe }) => {
+  const { width, height } = useWindowDimensions();
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const isTop = depth === 0;
+
+  /**
+   * Animates the card off screen in the given direction, then reports the swipe.
+   * Shared by the pan gesture and the card's like, dislike and skip buttons.
+   */
+  const flyOut = useCallback(
+    (direction: SwipeDirection) => {
+      "worklet";
+      const config = { duration: 250 };
+      const done = (finished?: boolean) => {
+        "worklet";
+        if (finished) {
+          runOnJS(onSwipe)(direction);
+        }
+      };
+
+      if (direction === "up") {
+        translateY.value = withTiming(-height * 1.5, config, done);
+      } else {
+        translateX.value = withTiming(
+          (direction === "right" ? 1 : -1) * width * 1.5,
+          config,
+          done,
+        );
+      }
+    },
+    [height, onSwipe, translateX, translateY, width],
+  );
+
+  const pan = Gesture.Pan()
+    .enabled(isTop)
+    .activeOffsetX([-15, 15])
+    .activeOffsetY([-15, 15])
+    .onUpdate((event) => {
+      translateX.value = event.translationX;
+      translateY.value = event.translationY;
+    })
+    .onEnd((event) => {
+      const direction = resolveSwipeDirection(
+        event.translationX,
+        event.translationY,
+        event.velocityX,
+        event.velocityY,
+      );
+
+      if (direction) {
+        flyOut(direction);
+      } else {
+        translateX.value = withSpring(0);
+        translateY.value = withSpring(0);
+      }
+    });
+
+  const cardStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateX: translateX.value },
+      { translateY: translateY.value + depth * 10 },
+      {
+        rotate: `${interpolate(
+          translateX.value,
+          [-width / 2, 0, width / 2],
+          [-MAX_ROTATION, 0, MAX_ROTATION],
+          Extrapolation.CLAMP,
+        )}deg`,
+      },
+      { scale: 1 - depth * 0.04 },
+    ],
+  }));
+
+  const likeLabelStyle = useAnimatedStyle(() => ({
+    opacity: interpolate(
+      translateX.value,
+      [0, SWIPE_DISTANCE_THRESHOLD],
+      [0, 1],
+      Extrapolation.CLAMP,
+    ),
+  }));
+  const nopeLabelStyle = useAnimatedStyle(() => ({
+    opacity: interpolate(
+      translateX.value,
+      [-SWIPE_DISTANCE_THRESHOLD, 0],
+      [1, 0],
+      Extrapolation.CLAMP,
+    ),
+  }));
+  const skipLabelStyle = useAnimatedStyle(() => ({
+    opacity: interpolate(
+      translateY.value,
+      [-SWIPE_DISTANCE_THRESHOLD, 0],
+      [1, 0],
+      Extrapolation.CLAMP,
+    ),
+  }));
+
+  return (
+    <GestureDetector gesture={pan}>
+      <Animated.View
+        pointerEvents={isTop ? "auto" : "none"}
+        style={[
+          styles.cardWrapper,
+          { zIndex: VISIBLE_CARDS - depth },
+          cardStyle,
+        ]}
+      >
+        <ProfileCard
+          profile={profile}
+          onLike={() => flyOut("right")}
+          onDislike={() => flyOut("left")}
+          onSkip={() => flyOut("up")}
+          scrollToIndex={() => {}}
+        />
+
+        <Animated.View
+          pointerEvents="none"
+          style={[styles.label, styles.likeLabel, likeLabelStyle]}
+        >
+          <Text style={{ ...styles.labelText, color: Colors.green }}>LIKE</Text>
+        </Animated.View>
+        <Animated.View
+          pointerEvents="none"
+          style={[styles.label, styles.nopeLabel, nopeLabelStyle]}
+        >
+          <Text style={{ ...styles.labelText, color: Colors.red }}>NOPE</Text>
+        </Animated.View>
+        <Animated.View
+          pointerEvents="none"
+          style={[styles.label, styles.skipLabel, skipLabelStyle]}
+        >
+          <Text style={{ ...styles.labelText, color: Colors.yellow }}>
+            SKIP
+          </Text>
+        </Animated.View>
+      </Animated.View>
+    </GestureDetector>
+  );
+};
+
+export interface SwipeDeckProps {
+  // Profiles in deck order, the first one being on top.
+  profiles: Profile[];
+  onLike: (id: string) => void;
+  onDislike: (id: string) => void;
+  onSkip: (id: string) => void;
+}
+
+/**
+ * SwipeDeck displays profiles as a stack of cards.
+ * Swiping right likes, swiping left dislikes and swiping up skips the top card.
+ *
+ * @component
+ * @param {SwipeDeckProps} props - Properties passed to the component.
+ * @returns {React.ReactElement} A stack of swipeable profile cards.
+ */
+export const SwipeDeck: FC<SwipeDeckProps> = ({
+  profiles,
+  onLike,
+  onDislike,
+  onSkip,
+}) => {
+  const visibleProfiles = profiles.slice(0, VISIBLE_CARDS);
+
+  // Swipes per profile, part of the card key: a card that stays in the deck after a swipe,
+  // e.g. a skipped card in a short deck, is remounted rather than left off screen.
+  const [swipeCounts, setSwipeCounts] = useState<Record<string, number>>({});
+
+  const handleSwipe = (id: string, direction: SwipeDirection): void => {
+    setSwipeCounts((counts: Record<string, number>) => ({
+      ...counts,
+      [id]: (counts[id] ?? 0) + 1,
+    }));
+
+    if (direction === "right") {
+      onLike(id);
+    } else if (direction === "left") {
+      onDislike(id);
+    } else {
+      onSkip(id);
+    }
+  };
+
+  // Cards are rendered bottom first so the top card is drawn last.
+  return (
+    <View style={styles.deck}>
+      {visibleProfiles
+        .map((profile: Profile, depth: number) => (
+          <SwipeCard
+            key={`${profile.id}:${swipeCounts[profile.id] ?? 0}`}
+            depth={depth}
+            profile={profile}
+            onSwipe={(direction) => handleSwipe(profile.id, direction)}
+          />
+        ))
+        .reverse()}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  deck: {
+    alignItems: "center",
+    flex: 1,
+    paddingTop: 20,
+  },
+
+  cardWrapper: {
+    maxWidth: "100%",
+    position: "absolute",
+    top: 20,
+    width: 500,
+  },
+
+  label: {
+    borderRadius: 8,
+    borderWidth: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    position: "absolute",
+    zIndex: 10,
+  },
+  likeLabel: {
+    borderColor: Colors.green,
+    left: 24,
+    top: 40,
+    transform: [{ rotate: "-15deg" }],
+  },
+  nopeLabel: {
+    borderColor: Colors.red,
+    right: 24,
+    top: 40,
+    transform: [{ rotate: "15deg" }],
+  },
+  skipLabel: {
+    alignSelf: "center",
+    borderColor: Colors.yellow,
+    bottom: 160,
+  },
+  labelText: {
+    fontSize: 36,
+    fontWeight: "bold",
+    letterSpacing: 2,
+  },
+});
+
+export default SwipeDeck;
@@ -0,0 +1,76 @@
+import { Profile } from "@/stores/useProfileStore";
+import * as React from "react";
+import { Text } from "react-native";
+import renderer, { act } from "react-test-renderer";
+
+import { SwipeDeck } from "../SwipeDeck";
+
+// Shared values that persist across renders, as on device; animations finish at once.
+jest.mock("react-native-reanimated", () => {
+  const mock = require("react-native-reanimated/mock");
+  const { useRef } = require("react");
+  return {
+    ...mock,
+    useSharedValue: (init: unknown) => useRef({ value: init }).current,
+  };
+});
+jest.mock("../ProfileCard", () => {
+  const { Text } = require("react-native");
+  return {
+    ProfileCard: ({
+      profile,
+      onSkip,
+    }: {
+      profile: Profile;
+      onSkip: () => void;
+    }) => <Text onPress={onSkip}>{profile.id}</Text>,
+  };
+});
+
+const profile = (id: string) => ({ id }) as Profile;
+
+// Vertical offset of the card showing `id`, without its depth in the stack.
+const offsetOf = (tree: renderer.ReactTestRenderer, id: string): number => {
+  const card = tree.root.findAll(
+    (node) => node.type === Text && node.props.children === id,
+  )[0].parent?.parent;
+  const { transform } = [card?.props.style]
+    .flat(3)
+    .find((style) => style?.transform);
+  return transform[1].translateY;
+};
+
+it(`brings a skipped card back on screen when it stays in a short deck`, () => {
+  const Deck = () => {
+    const [profiles, setProfiles] = React.useState([
+      profile("a"),
+      profile("b"),
+    ]);
+    return (
+      <SwipeDeck
+        profiles={profiles}
+        onLike={() => {}}
+        onDislike={() => {}}
+        onSkip={(id) =>
+          setProfiles((previous) => [
+            ...previous.filter((entry) => entry.id !== id),
+            ...previous.filter((entry) => entry.id === id),
+          ])
+        }
+      />
+    );
+  };
+
+  let tree!: renderer.ReactTestRenderer;
+  act(() => {
+    tree = renderer.create(<Deck />);
+  });
+  act(() => {
+    tree.root
+      .findAll((node) => node.type === Text && node.props.children === "a")[0]
+      .props.onPress();
+  });
+
+  // "a" is now second in the deck: on screen, one step down.
+  expect(offsetOf(tree, "a")).toBe(10);
+});
@@ -0,0 +1,41 @@
+import type { CompatibilityWeights } from "@/utils/compatibility";
+
+/**
+ * Feed behaviour settings.
+ */
+
+/**
+ * How many other profiles the user goes through before a skipped profile comes back.
+ * Set to null to hold skipped profiles back until the end of the feed.
+ */
+export const SKIP_RESURFACE_AFTER: number | null = null;
+
+/**
+ * When fewer undecided profiles than this remain, the next batch is requested.
+ */
+export const FEED_PREFETCH_THRESHOLD = 3;
+
+/**
+ * Relative weights of the compatibility score used by "best match" ordering.
+ * See `scoreProfile` in `utils/compatibility.ts`.
+ */
+export const DEFAULT_COMPATIBILITY_WEIGHTS: CompatibilityWeights = {
+  desires: 2,
+  interests: 1,
+  preferences: 0.5,
+};
+
+/**
+ * How many upcoming profiles have their photos prefetched.
+ */
+export const PHOTO_PREFETCH_PROFILES = 5;
+
+/**
+ * Largest number of photos prefetched at once.
+ */
+export const PHOTO_PREFETCH_CONCURRENCY = 2;
+
+/**
+ * Largest number of photos kept in the prefetch cache; the least recently wanted are evicted first.
+ */
+export const PHOTO_CACHE_SIZE = 60;
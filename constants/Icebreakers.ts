@@ -0,0 +1,201 @@
+/**
+ * Template library for conversation starters. See `suggestIcebreakers` in
+ * `utils/icebreakers.ts`.
+ *
+ * Templates are filled in with:
+ *   - {name}: the other profile's name.
+ *   - {tag}: the tag, as the other profile spells it.
+ *   - {other}: a second shared tag, for lines about two at once.
+ *   - {about}: the start of the other profile's "about" text.
+ */
+
+/**
+ * Lines for one tag, depending on whether the viewer lists it too.
+ */
+export interface TagTemplates {
+  // Other spellings and translations of the tag found on profiles, lowercase.
+  aliases: string[];
+  // Lines for when both profiles list the tag.
+  shared: string[];
+  // Lines for when only the other profile lists it.
+  theirs: string[];
+}
+
+/**
+ * Templates by tag, keyed by the tag in lowercase.
+ * Covers interests and the milder desires; other tags only get a line when both profiles list them.
+ */
+export const ICEBREAKER_TAG_TEMPLATES: Record<string, TagTemplates> = {
+  music: {
+    aliases: ["muziek", "musique", "musik"],
+    shared: [
+      "Fellow music lover! What have you had on repeat lately?",
+      "We both put music on our profiles. Best concert you've been to?",
+    ],
+    theirs: [
+      "What's the last song you couldn't stop playing?",
+      "I see you're into music. What should I be listening to?",
+    ],
+  },
+  trance: {
+    aliases: [],
+    shared: ["Trance fans unite! Which DJ should I catch live?"],
+    theirs: ["Trance, nice! Any sets you'd recommend for a newcomer?"],
+  },
+  dancing: {
+    aliases: ["dance", "dansen"],
+    shared: ["We both love dancing. Where do you go to dance around here?"],
+    theirs: ["Dancing, fun! What kind of music gets you on the floor?"],
+  },
+  photography: {
+    aliases: ["photo", "fotografie", "photographie", "photos"],
+    shared: [
+      "Another photographer! What do you like to shoot most?",
+      "We both do photography. Film or digital?",
+    ],
+    theirs: ["What's the best photo you've taken recently?"],
+  },
+  art: {
+    aliases: ["kunst", "graphisme"],
+    shared: ["We both love art. Which artist would you want to meet?"],
+    theirs: ["I see you're into art. Do you make it, look at it, or both?"],
+  },
+  drawing: {
+    aliases: ["sketching", "tekenen"],
+    shared: ["Fellow doodler! What do you like to draw?"],
+    theirs: ["You draw? I'd love to hear what you're working on."],
+  },
+  reading: {
+    aliases: ["books", "lezen"],
+    shared: [
+      "We both love reading. What's the best book you read this year?",
+      "Fellow reader! Which book do you recommend to everyone?",
+    ],
+    theirs: ["What are you reading at the moment?"],
+  },
+  diy: {
+    aliases: ["crafts", "making"],
+    shared: ["Two DIY fans! What's the project you're proudest of?"],
+    theirs: ["DIY, nice! What was the last thing you built?"],
+  },
+  kayaking: {
+    aliases: ["kyacking", "kayak", "canoeing"],
+    shared: ["We both kayak! Where's your favourite place to paddle?"],
+    theirs: ["Kayaking sounds amazing. Where do you like to paddle?"],
+  },
+  climbing: {
+    aliases: ["bouldering", "klimmen"],
+    shared: ["A fellow climber! Bouldering or ropes?"],
+    theirs: ["Climbing, impressive! Indoors or out on real rock?"],
+  },
+  adventure: {
+    aliases: ["travel", "travelling", "traveling"],
+    shared: [
+      "We're both up for adventure. What's the wildest trip you've taken?",
+    ],
+    theirs: ["What's the best adventure you've been on so far?"],
+  },
+  forest: {
+    aliases: ["hiking", "nature", "outdoors"],
+    shared: ["We both love being outdoors. Favourite walk around here?"],
+    theirs: ["A nature lover! Where do you go to get away from it all?"],
+  },
+  food: {
+    aliases: ["cooking", "eten"],
+    shared: ["Fellow foodie! What's your go-to place to eat?"],
+    theirs: ["What's the best thing you've eaten lately?"],
+  },
+  "video games": {
+    aliases: ["gaming", "games"],
+    shared: ["A fellow gamer! What are you playing right now?"],
+    theirs: ["What's the game you keep coming back to?"],
+  },
+  sports: {
+    aliases: ["sport"],
+    shared: ["We're both sporty. What do you play?"],
+    theirs: ["Which sport is yours? Playing or watching?"],
+  },
+  casual: {
+    aliases: [],
+    shared: [
+      "Looks like we're both keeping it casual. What's your idea of a fun first meet?",
+    ],
+    theirs: ["What does a great casual date look like to you?"],
+  },
+  "long-term relationship": {
+    aliases: ["relationship"],
+    shared: [
+      "We're both looking for something lasting. What matters most to you in a partner?",
+    ],
+    theirs: ["What does a great relationship look like to you?"],
+  },
+  "short-term relationship": {
+    aliases: [],
+    shared: [
+      "We're both open to something short and sweet. What's your ideal first date?",
+    ],
+    theirs: ["What would make a perfect first date for you?"],
+  },
+  fun: {
+    aliases: [],
+    shared: [
+      "We're both here for fun. What's the most fun you've had this year?",
+    ],
+    theirs: [
+      "You're looking for fun, so what's your idea of a great night out?",
+    ],
+  },
+  relaxed: {
+    aliases: ["chill"],
+    shared: ["Two relaxed people! What's your perfect lazy Sunday?"],
+    theirs: ["What does a relaxed evening look like for you?"],
+  },
+};
+
+/**
+ * Lines used when no tag template fits.
+ */
+export const ICEBREAKER_GENERIC_TEMPLATES = {
+  // Two tags both profiles list.
+  sharedPair: [
+    "We both listed {tag} and {other}. Great minds think alike?",
+    "{tag} and {other}? Looks like we'd get along.",
+  ],
+  // A tag both profiles list, without a template of its own.
+  shared: [
+    "We both listed {tag}! What does it mean to you?",
+    "I see we share {tag}. How did you get into it?",
+  ],
+  // Something from the other profile's bio.
+  about: [
+    'Your bio says "{about}". Tell me more!',
+    'I liked reading "{about}" on your profile. What\'s the story there?',
+  ],
+  // When there is nothing else to go on.
+  fallback: [
+    "Hi {name}! What are you looking forward to this week?",
+    "Hey {name}, what's the best thing that happened to you today?",
+  ],
+};
+
+/**
+ * Rank of each kind of suggestion: lines about what the two profiles share come first.
+ */
+export const ICEBREAKER_WEIGHTS = {
+  sharedPair: 5,
+  sharedKnown: 4,
+  shared: 3,
+  theirsKnown: 2,
+  about: 1,
+  fallback: 0,
+};
+
+/**
+ * How many suggestions are shown.
+ */
+export const ICEBREAKER_COUNT = 3;
+
+/**
+ * Longest bio excerpt quoted in a suggestion, in characters.
+ */
+export const ICEBREAKER_ABOUT_LENGTH = 60;
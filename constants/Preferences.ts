@@ -0,0 +1,22 @@
+import type { DiscoveryPreferences } from "@/stores/preferencesStore";
+import { MAX_PROFILE_AGE, MIN_PROFILE_AGE } from "@/utils/profileValidation";
+
+/**
+ * Discovery preference defaults. See `stores/preferencesStore.tsx`.
+ */
+
+// Youngest and oldest ages the age range can be set to: every age a valid profile can have.
+export const PREFERENCES_MIN_AGE = MIN_PROFILE_AGE;
+export const PREFERENCES_MAX_AGE = MAX_PROFILE_AGE;
+
+/**
+ * Preferences before the user changes any: every age, any value.
+ */
+export const DEFAULT_PREFERENCES: DiscoveryPreferences = {
+  minAge: PREFERENCES_MIN_AGE,
+  maxAge: PREFERENCES_MAX_AGE,
+  genders: [],
+  sexualities: [],
+  types: [],
+  desires: [],
+};
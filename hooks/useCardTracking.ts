@@ -0,0 +1,57 @@
+import { useEffect, useRef } from "react";
+import { analytics } from "@/services/analytics";
+
+/**
+ * Records the dwell time of a card and stops tracking it.
+ *
+ * @param shownAt - When each tracked card came into view, by profile ID.
+ */
+const endDwell = (
+  shownAt: Map<string, number>,
+  id: string,
+  now: number,
+): void => {
+  analytics.track({
+    type: "card_dwell",
+    profileId: id,
+    durationMs: now - (shownAt.get(id) ?? now),
+  });
+  shownAt.delete(id);
+};
+
+/**
+ * Records an impression when a card comes into view, and how long it stayed there once
+ * it leaves, or when the feed unmounts.
+ *
+ * @param visibleIds - IDs of the profiles whose cards are on screen.
+ */
+export function useCardTracking(visibleIds: string[]): void {
+  // When each visible card came into view, by profile ID.
+  const shownAt = useRef(new Map<string, number>());
+  // The visible IDs as a string, so a new array with the same IDs doesn't count as a change.
+  const visibleKey = visibleIds.join(",");
+
+  useEffect(() => {
+    const now = Date.now();
+    const ids = visibleKey ? visibleKey.split(",") : [];
+
+    [...shownAt.current.keys()]
+      .filter((id: string) => !ids.includes(id))
+      .forEach((id: string) => endDwell(shownAt.current, id, now));
+
+    ids
+      .filter((id: string) => !shownAt.current.has(id))
+      .forEach((id: string) => {
+        shownAt.current.set(id, now);
+        analytics.track({ type: "card_impression", profileId: id });
+      });
+  }, [visibleKey]);
+
+  useEffect(() => {
+    const tracked = shownAt.current;
+    return () => {
+      const now = Date.now();
+      [...tracked.keys()].forEach((id: string) => endDwell(tracked, id, now));
+    };
+  }, []);
+}
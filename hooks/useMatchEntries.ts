@@ -0,0 +1,51 @@
+import { Match, useMatchesStore } from "@/stores/matchesStore";
+import { Profile, useProfileStore } from "@/stores/useProfileStore";
+import { useUserStore } from "@/stores/userStore";
+import { collapseCouples } from "@/utils/couples";
+
+/**
+ * A match as listed on the matches and messages screens.
+ */
+export interface MatchEntry {
+  // ID of the matched profile.
+  id: string;
+  // Partner's ID for a couple, or null.
+  associated: string | null;
+  // When the match was reported, in milliseconds since the epoch.
+  matchedAt: number;
+  // The profile, or undefined when no copy is loaded.
+  profile?: Profile;
+  // The partner's profile, when known.
+  partner?: Profile;
+}
+
+/**
+ * Lists the user's matches, newest first, showing each couple once. Profiles are taken
+ * from the kept copies of liked profiles, falling back to the loaded profiles.
+ *
+ * @returns The match entries.
+ */
+export function useMatchEntries(): MatchEntry[] {
+  const matches = useMatchesStore((state) => state.matches);
+  const decidedProfiles = useUserStore((state) => state.decidedProfiles);
+  const profiles = useProfileStore((state) => state.profiles);
+
+  const findProfile = (id: string): Profile | undefined =>
+    decidedProfiles[id] ??
+    profiles.find((profile: Profile) => profile.id === id);
+
+  return collapseCouples(
+    [...matches].reverse().map(({ profileId, matchedAt }: Match) => {
+      const profile = findProfile(profileId);
+      const associated = profile?.associated ?? null;
+
+      return {
+        id: profileId,
+        associated,
+        matchedAt,
+        profile,
+        partner: associated ? findProfile(associated) : undefined,
+      };
+    }),
+  );
+}
@@ -0,0 +1,13 @@
+import { Profile } from "@/stores/useProfileStore";
+import { useProfile } from "./useProfile";
+
+/**
+ * Resolves the partner of a couple profile through `useProfile`, fetching it when it
+ * isn't loaded.
+ *
+ * @param profile - The profile whose partner to resolve.
+ * @returns The partner, or null for singles and while the partner is loading or unavailable.
+ */
+export function usePartner(profile: Profile): Profile | null {
+  return useProfile(profile.associated) ?? null;
+}
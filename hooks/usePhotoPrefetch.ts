@@ -0,0 +1,38 @@
+import { useEffect, useRef } from "react";
+import { PHOTO_PREFETCH_PROFILES } from "@/constants/Feed";
+import { photoPrefetcher } from "@/services/photoPrefetcher";
+import { Profile, useProfileStore } from "@/stores/useProfileStore";
+
+/**
+ * Prefetches the photos of the next few profiles in the feed, with their partners' photos,
+ * so cards don't show blank boxes while their images download.
+ * The queue follows the feed: photos of profiles that leave it, e.g. once decided, are dropped.
+ *
+ * @param upcoming - Undecided profiles in feed order.
+ */
+export function usePhotoPrefetch(upcoming: Profile[]): void {
+  const { profiles, fetchedProfiles } = useProfileStore();
+
+  const next = upcoming
+    .slice(0, PHOTO_PREFETCH_PROFILES)
+    .flatMap((profile: Profile) => {
+      const partnerId = profile.associated;
+      const partner = partnerId
+        ? (profiles.find((entry: Profile) => entry.id === partnerId) ??
+          fetchedProfiles[partnerId])
+        : null;
+
+      return partner ? [profile, partner] : [profile];
+    });
+  const key = next.map((profile: Profile) => profile.id).join(",");
+  // The latest profiles, so the prefetch below runs when the IDs change, not on every render.
+  const latest = useRef(next);
+
+  useEffect(() => {
+    latest.current = next;
+  });
+
+  useEffect(() => {
+    photoPrefetcher.prefetch(latest.current);
+  }, [key]);
+}
@@ -0,0 +1,33 @@
+import { useEffect } from "react";
+import { Profile, useProfileStore } from "@/stores/useProfileStore";
+import { useUserStore } from "@/stores/userStore";
+
+/**
+ * Resolves a profile by ID.
+ * The profile is looked up among the loaded profiles first, then among profiles fetched
+ * on their own and copies kept of decided profiles; when it is in none, it is requested
+ * through the profile source.
+ *
+ * @param id - The ID of the profile to resolve, or null for none.
+ * @returns The profile; undefined while it loads; null for no ID or when it is unavailable.
+ */
+export function useProfile(id: string | null): Profile | null | undefined {
+  const loaded = useProfileStore((state) =>
+    id
+      ? (state.profiles.find((entry: Profile) => entry.id === id) ??
+        state.fetchedProfiles[id])
+      : null,
+  );
+  const decided = useUserStore((state) =>
+    id ? state.decidedProfiles[id] : undefined,
+  );
+  const fetchProfileById = useProfileStore((state) => state.fetchProfileById);
+
+  useEffect(() => {
+    if (id && loaded === undefined && !decided) {
+      fetchProfileById(id);
+    }
+  }, [id, loaded, decided, fetchProfileById]);
+
+  return loaded || (decided ?? loaded);
+}
@@ -0,0 +1,13 @@
+/* eslint-env node */
+// Learn more https://docs.expo.io/guides/customizing-metro
+const { getDefaultConfig } = require("expo/metro-config");
+
+const config = getDefaultConfig(__dirname);
+
+// Fixtures are JSON with comments, imported as text and parsed at runtime.
+config.resolver.sourceExts.push("jsonc");
+config.transformer.babelTransformerPath = require.resolve(
+  "./scripts/jsonc-transformer.js",
+);
+
+module.exports = config;
@@ -0,0 +1,4 @@
+// Jest transform that loads `.jsonc` fixtures as raw text, mirroring scripts/jsonc-transformer.js.
+module.exports = {
+  process: (src) => ({ code: `module.exports = ${JSON.stringify(src)};` }),
+};
@@ -0,0 +1,17 @@
+// Metro Babel transformer that loads `.jsonc` fixtures as raw text, so they can be parsed
+// at runtime with `parseJsonc`. Every other file goes through Expo's transformer unchanged.
+// Jest uses scripts/jsonc-jest-transformer.js for the same purpose.
+const upstreamTransformer = require("@expo/metro-config/babel-transformer");
+
+module.exports = {
+  ...upstreamTransformer,
+
+  transform: ({ src, filename, ...rest }) =>
+    upstreamTransformer.transform({
+      src: filename.endsWith(".jsonc")
+        ? `module.exports = ${JSON.stringify(src)};`
+        : src,
+      filename,
+      ...rest,
+    }),
+};
@@ -0,0 +1,386 @@
+#!/usr/bin/env node
+/* eslint-env node */
+
+/**
+ * Local stand-in for the profiles API.
+ *
+ * Reproduces the contract of `GET /api/v1/users`: the `session-token` header is checked,
+ * and each call returns 20 random users from a pool of 100 wrapped in `{ status, data }`.
+ * Like the real pool, a few users share an ID, so batches can contain duplicates.
+ * `POST /api/v1/events` receives batches of analytics events, and `GET /api/v1/events`
+ * lists the most recent ones.
+ * `POST /api/v1/decisions` receives likes and dislikes. Each decision's idempotency key is
+ * applied once; decisions on unknown profiles are rejected. Every third user likes back,
+ * so liking them is reported as a match.
+ *
+ * Faults can be switched on to exercise the app's error paths:
+ *   - `FAULT` environment variable, applied to every request;
+ *   - `?fault=` query parameter, applied to a single request;
+ *   - `POST /__fault?mode=` to change the fault while the server runs.
+ *
+ * Fault modes: none, 401, 500, slow, malformed, truncated.
+ *
+ * Usage: `npm run mock-server`, then set `API_URL=http://localhost:4000` in `.env`
+ * (`http://10.0.2.2:4000` from the Android emulator).
+ */
+
+const http = require("http");
+
+const PORT = Number(process.env.PORT) || 4000;
+const SESSION_TOKEN =
+  process.env.SESSION_TOKEN ||
+  "3TtY+AVtEJMaOPWGyEulVEgVBWZ8gqM75gag6wCcA3rJCYWMkX/ZmAOJxrZ4bPyBLJBch7VyMYD8ZCWoNPCUnJbT5M2iRWjJteGrfNhFzd+0oDbWQwiNAIdG0W9rHw7sKAAWk5uEzjs+lPykJnmy56LRwSFpoyxHC7p9G3KTQoQ=";
+// Delay of the "slow" fault, longer than the app's 10 s request timeout so it times out.
+const SLOW_MS = Number(process.env.SLOW_MS) || 12000;
+const POOL_SIZE = 100;
+const BATCH_SIZE = 20;
+const FAULT_MODES = ["none", "401", "500", "slow", "malformed", "truncated"];
+const MAX_EVENTS = 500;
+
+let fault = process.env.FAULT || "none";
+
+// Most recent analytics events received, oldest first.
+let events = [];
+
+// Outcome per decision idempotency key: null once accepted, or the rejection reason.
+const decisionResults = new Map();
+
+// Current decision per profile ID.
+const decisions = new Map();
+
+/**
+ * Small seeded PRNG so the pool, and its IDs, are the same on every start.
+ */
+const seededRandom = (seed) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const random = seededRandom(42);
+const pick = (list) => list[Math.floor(random() * list.length)];
+const pickSome = (list, max) =>
+  list.filter(() => random() < max / list.length).slice(0, max);
+
+const NAMES = [
+  "John",
+  "Kirra",
+  "Sam",
+  "Alex",
+  "Robin",
+  "Jamie",
+  "Noor",
+  "Kai",
+  "Ren",
+  "Mika",
+  "Ola",
+  "Tess",
+  "Luca",
+  "Iris",
+  "Ezra",
+  "Maya",
+  "Theo",
+  "Zara",
+  "Finn",
+  "Leah",
+];
+const GENDERS = ["male", "female", "non-binary", "genderfluid"];
+const SEXUALITIES = ["straight", "bisexual", "gay", "pansexual", "queer"];
+const DESIRES = [
+  "Relationship",
+  "Casual",
+  "Long-Term Relationship",
+  "Short-Term Relationship",
+  "Single 4 Couple",
+  "Single 4 Single",
+  "Couple 4 Single",
+  "Friendship",
+];
+const INTERESTS = [
+  "Food",
+  "Video Games",
+  "Art",
+  "Reading",
+  "DIY",
+  "Kayaking",
+  "Drawing",
+  "Climbing",
+  "Adventure",
+  "Music",
+  "Travel",
+  "Yoga",
+  "Cinema",
+  "Cooking",
+];
+
+/**
+ * Builds the pool of 100 users.
+ * Every tenth user reuses the previous user's ID, and every eighth pair forms a couple.
+ */
+const buildPool = () => {
+  const pool = [];
+
+  for (let i = 0; i < POOL_SIZE; i++) {
+    const id = (0x55be3c8fc964860700ebf500n + BigInt(i)).toString(16);
+    const photoCount = Math.floor(random() * 4);
+
+    pool.push({
+      id: i % 10 === 9 ? pool[i - 1].id : id,
+      info: {
+        age: 18 + Math.floor(random() * 40),
+        type: "single",
+        gender: pick(GENDERS),
+        sexuality: pick(SEXUALITIES),
+        name: pick(NAMES),
+        about: '"Tell us more about you"',
+        desires: pickSome(DESIRES, 4),
+        interests: pickSome(INTERESTS, 6),
+      },
+      associated: null,
+      photos: Array.from({ length: photoCount }, (_, photo) => {
+        const width = pick([716, 1080, 1480]);
+        const height = pick([716, 1350, 1920]);
+        return {
+          url: `https://picsum.photos/seed/${id}-${photo}/${width}/${height}`,
+          width,
+          height,
+        };
+      }),
+    });
+  }
+
+  for (let i = 0; i + 1 < POOL_SIZE; i += 16) {
+    const [first, second] = [pool[i], pool[i + 1]];
+    // Duplicate entries share an ID; pairing them would make a profile its own partner.
+    if (first.id === second.id) {
+      continue;
+    }
+    first.info.type = second.info.type = "coupled & open";
+    first.associated = second.id;
+    second.associated = first.id;
+  }
+
+  return pool;
+};
+
+const pool = buildPool();
+
+// IDs of users who like everyone back: every third user of the pool.
+const admirers = new Set(
+  pool.filter((_, index) => index % 3 === 0).map((user) => user.id),
+);
+
+/**
+ * Picks 20 random pool entries. Entries are distinct, but IDs may repeat.
+ */
+const randomBatch = () =>
+  pool
+    .map((user) => ({ user, order: Math.random() }))
+    .sort((a, b) => a.order - b.order)
+    .slice(0, BATCH_SIZE)
+    .map(({ user }) => user);
+
+/**
+ * Checks the session token and the auth and server faults shared by every endpoint.
+ *
+ * @returns True when an error response has been sent.
+ */
+const rejectRequest = (req, res, activeFault) => {
+  if (activeFault === "401" || req.headers["session-token"] !== SESSION_TOKEN) {
+    sendJson(res, 401, { status: 401, message: "Invalid session token" });
+    return true;
+  }
+
+  if (activeFault === "500") {
+    sendJson(res, 500, { status: 500, message: "Internal server error" });
+    return true;
+  }
+
+  return false;
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Answers `GET /api/v1/users`, applying the active fault.
+ */
+const handleUsers = (req, res, activeFault) => {
+  if (rejectRequest(req, res, activeFault)) {
+    return;
+  }
+
+  const body = JSON.stringify({ status: 200, data: randomBatch() });
+
+  if (activeFault === "malformed") {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    return res.end(`{"status": 200, "data": [${body.slice(0, 40)}`);
+  }
+
+  if (activeFault === "truncated") {
+    // Announce the full length, then hang up halfway through the payload.
+    res.writeHead(200, {
+      "Content-Type": "application/json",
+      "Content-Length": Buffer.byteLength(body),
+    });
+    res.write(body.slice(0, Math.floor(body.length / 2)));
+    return res.destroy();
+  }
+
+  if (activeFault === "slow") {
+    return setTimeout(() => sendJson(res, 200, JSON.parse(body)), SLOW_MS);
+  }
+
+  return sendJson(res, 200, JSON.parse(body));
+};
+
+/**
+ * Reads a JSON request body and passes the list under `field` to `handle`,
+ * or answers 400 when there is none.
+ */
+const readList = (req, res, field, handle) => {
+  let body = "";
+  req.on("data", (chunk) => {
+    body += chunk;
+  });
+  req.on("end", () => {
+    let list;
+    try {
+      list = JSON.parse(body)[field];
+    } catch {
+      list = null;
+    }
+
+    if (!Array.isArray(list)) {
+      return sendJson(res, 400, {
+        status: 400,
+        message: `Expected { ${field}: [] }`,
+      });
+    }
+
+    return handle(list);
+  });
+};
+
+/**
+ * Answers `POST /api/v1/events`, keeping the last `MAX_EVENTS` events received.
+ * Only the auth and server faults apply.
+ */
+const handleEvents = (req, res, activeFault) => {
+  if (rejectRequest(req, res, activeFault)) {
+    return;
+  }
+
+  readList(req, res, "events", (received) => {
+    events = [...events, ...received].slice(-MAX_EVENTS);
+    const counts = received.reduce((total, event) => {
+      total[event.type] = (total[event.type] || 0) + 1;
+      return total;
+    }, {});
+    console.log(`  ${received.length} events:`, counts);
+
+    return sendJson(res, 200, { status: 200, received: received.length });
+  });
+};
+
+/**
+ * Answers `POST /api/v1/decisions` with the accepted and rejected idempotency keys,
+ * and the IDs of liked users who like back.
+ * A key seen before gets its first outcome again, so resent batches are safe.
+ * Only the auth and server faults apply.
+ */
+const handleDecisions = (req, res, activeFault) => {
+  if (rejectRequest(req, res, activeFault)) {
+    return;
+  }
+
+  readList(req, res, "decisions", (received) => {
+    const accepted = [];
+    const rejected = [];
+    const matches = [];
+
+    received.forEach(({ key, profileId, decision }) => {
+      if (!decisionResults.has(key)) {
+        const reason = !pool.some((user) => user.id === profileId)
+          ? "Unknown profile"
+          : !["like", "dislike", "clear"].includes(decision)
+            ? `Unknown decision "${decision}"`
+            : null;
+
+        decisionResults.set(key, reason);
+        if (!reason) {
+          decisions.set(profileId, decision);
+        }
+      }
+
+      const reason = decisionResults.get(key);
+      if (reason) {
+        rejected.push({ key, reason });
+      } else {
+        accepted.push(key);
+        if (decision === "like" && admirers.has(profileId)) {
+          matches.push(profileId);
+        }
+      }
+    });
+    console.log(
+      `  ${accepted.length} decisions accepted, ${rejected.length} rejected, ${matches.length} matches`,
+    );
+
+    return sendJson(res, 200, {
+      status: 200,
+      data: { accepted, rejected, matches },
+    });
+  });
+};
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const requestedFault = url.searchParams.get("fault");
+
+  // Allow the web build, served from another port, to call the server.
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.setHeader("Access-Control-Allow-Headers", "*");
+  if (req.method === "OPTIONS") {
+    res.writeHead(204);
+    return res.end();
+  }
+
+  console.log(`${req.method} ${req.url} (fault: ${requestedFault || fault})`);
+
+  if (req.method === "POST" && url.pathname === "/__fault") {
+    const mode = url.searchParams.get("mode") || "none";
+    if (!FAULT_MODES.includes(mode)) {
+      return sendJson(res, 400, { message: `Unknown fault "${mode}"` });
+    }
+    fault = mode;
+    return sendJson(res, 200, { fault });
+  }
+
+  if (req.method === "GET" && url.pathname === "/api/v1/users") {
+    return handleUsers(req, res, requestedFault || fault);
+  }
+
+  if (req.method === "POST" && url.pathname === "/api/v1/events") {
+    return handleEvents(req, res, requestedFault || fault);
+  }
+
+  if (req.method === "POST" && url.pathname === "/api/v1/decisions") {
+    return handleDecisions(req, res, requestedFault || fault);
+  }
+
+  if (req.method === "GET" && url.pathname === "/api/v1/events") {
+    return sendJson(res, 200, { status: 200, data: events });
+  }
+
+  return sendJson(res, 404, { status: 404, message: "Not found" });
+});
+
+server.listen(PORT, () => {
+  console.log(
+    `Mock API listening on http://localhost:${PORT} (fault: ${fault})`,
+  );
+});
@@ -0,0 +1,59 @@
+import { apiRequest } from "../apiClient";
+import {
+  createAnalytics,
+  createHttpSink,
+  createMemorySink,
+} from "../analytics";
+
+jest.mock("../apiClient", () => ({
+  ...jest.requireActual("../apiClient"),
+  apiRequest: jest.fn(),
+}));
+
+const mockedRequest = apiRequest as jest.Mock;
+
+describe("createAnalytics", () => {
+  it(`stamps events with the time and session`, () => {
+    const sink = createMemorySink();
+    const analytics = createAnalytics(sink, "session-1", () => 1000);
+
+    analytics.track({ type: "card_impression", profileId: "a" });
+
+    expect(sink.records).toEqual([
+      {
+        type: "card_impression",
+        profileId: "a",
+        timestamp: 1000,
+        sessionId: "session-1",
+      },
+    ]);
+  });
+});
+
+describe("createHttpSink", () => {
+  beforeEach(() => mockedRequest.mockReset());
+
+  it(`sends full batches and keeps events of a failed send`, async () => {
+    const sink = createHttpSink("http://localhost:4000", "token", {
+      batchSize: 2,
+    });
+    const analytics = createAnalytics(sink, "session-1", () => 1000);
+
+    mockedRequest.mockRejectedValueOnce(new Error("offline"));
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    analytics.track({ type: "card_impression", profileId: "a" });
+    analytics.track({ type: "card_impression", profileId: "b" });
+    await analytics.flush();
+
+    mockedRequest.mockResolvedValueOnce({ status: 200 });
+    analytics.track({ type: "details_expand", profileId: "b" });
+    await analytics.flush();
+
+    expect(mockedRequest).toHaveBeenCalledTimes(2);
+    expect(
+      mockedRequest.mock.calls[1][0].data.events.map(
+        (event: { profileId: string }) => event.profileId,
+      ),
+    ).toEqual(["a", "b", "b"]);
+  });
+});
@@ -0,0 +1,90 @@
+import axios, { AxiosHeaders, AxiosResponse } from "axios";
+import { ApiError, apiRequest } from "../apiClient";
+
+const options = { baseDelay: 0, maxDelay: 0, retries: 2 };
+
+const httpError = (status: number) => {
+  const config = { headers: new AxiosHeaders() };
+  const response: AxiosResponse = {
+    status,
+    statusText: "",
+    data: {},
+    headers: {},
+    config,
+  };
+  return new axios.AxiosError(
+    "Request failed",
+    "ERR_BAD_RESPONSE",
+    config,
+    null,
+    response,
+  );
+};
+
+describe("apiRequest", () => {
+  const request = jest.spyOn(axios, "request");
+
+  afterEach(() => {
+    request.mockReset();
+  });
+
+  it(`retries server errors and returns the parsed body`, async () => {
+    request
+      .mockRejectedValueOnce(httpError(500))
+      .mockResolvedValueOnce({ status: 200, data: '{"status":200,"data":[]}' });
+
+    await expect(apiRequest({ url: "/users" }, options)).resolves.toEqual({
+      status: 200,
+      data: [],
+    });
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it(`does not retry auth failures`, async () => {
+    request.mockRejectedValue(httpError(401));
+
+    await expect(apiRequest({ url: "/users" }, options)).rejects.toMatchObject({
+      category: "auth",
+      status: 401,
+    });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it(`retries rate limits but not other client errors`, async () => {
+    request
+      .mockRejectedValueOnce(httpError(429))
+      .mockRejectedValueOnce(httpError(404));
+
+    await expect(
+      apiRequest({ url: "/users/1" }, options),
+    ).rejects.toMatchObject({ category: "server", status: 404 });
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it(`reports malformed bodies as parse errors`, async () => {
+    request.mockResolvedValue({
+      status: 200,
+      data: '{"status": 200, "data": [',
+    });
+
+    await expect(apiRequest({ url: "/users" }, options)).rejects.toBeInstanceOf(
+      ApiError,
+    );
+    await expect(apiRequest({ url: "/users" }, options)).rejects.toMatchObject({
+      category: "parse",
+    });
+  });
+
+  it(`stops retrying once cancelled`, async () => {
+    const controller = new AbortController();
+    request.mockImplementation(async () => {
+      controller.abort();
+      throw new axios.AxiosError("Network Error", "ERR_NETWORK");
+    });
+
+    await expect(
+      apiRequest({ url: "/users" }, { ...options, signal: controller.signal }),
+    ).rejects.toMatchObject({ category: "cancelled" });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
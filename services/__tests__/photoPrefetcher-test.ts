@@ -0,0 +1,85 @@
+import type { Profile } from "@/stores/useProfileStore";
+import { createPhotoPrefetcher, PhotoStorage } from "../photoPrefetcher";
+
+const profile = (id: string, urls: string[]): Profile => ({
+  id,
+  info: {
+    name: id,
+    age: 30,
+    type: "single",
+    gender: "woman",
+    sexuality: "straight",
+    about: "",
+    desires: [],
+    interests: [],
+  },
+  associated: null,
+  photos: urls.map((url: string) => ({ url })),
+});
+
+// Fake storage recording saved and removed photos, with a local URI per URL.
+const fakeStorage = (): PhotoStorage & {
+  saved: string[];
+  removed: string[];
+} => {
+  const saved: string[] = [];
+  const removed: string[] = [];
+  return {
+    saved,
+    removed,
+    save: async (url: string) => {
+      saved.push(url);
+      return `file://${url}`;
+    },
+    remove: (uri: string) => {
+      removed.push(uri);
+    },
+  };
+};
+
+// Lets pending promise callbacks run.
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("createPhotoPrefetcher", () => {
+  it(`loads first photos before the rest of each gallery`, async () => {
+    const storage = fakeStorage();
+    const prefetcher = createPhotoPrefetcher(storage, 10, 1);
+
+    prefetcher.prefetch([profile("a", ["a1", "a2"]), profile("b", ["b1"])]);
+    for (let i = 0; i < 3; i++) {
+      await flush();
+    }
+
+    expect(storage.saved).toEqual(["a1", "b1", "a2"]);
+    expect(prefetcher.resolve("a2")).toBe("file://a2");
+    expect(prefetcher.resolve("c1")).toBe("c1");
+  });
+
+  it(`evicts the least recently wanted photos over the limit`, async () => {
+    const storage = fakeStorage();
+    const prefetcher = createPhotoPrefetcher(storage, 2, 3);
+
+    prefetcher.prefetch([profile("a", ["a1"]), profile("b", ["b1"])]);
+    await flush();
+    prefetcher.prefetch([profile("c", ["c1"]), profile("b", ["b1"])]);
+    await flush();
+
+    expect(prefetcher.size()).toBe(2);
+    expect(prefetcher.isCached("a1")).toBe(false);
+    expect(prefetcher.isCached("b1")).toBe(true);
+    expect(storage.removed).toEqual(["file://a1"]);
+  });
+
+  it(`drops queued photos of cancelled profiles`, async () => {
+    const storage = fakeStorage();
+    const prefetcher = createPhotoPrefetcher(storage, 10, 1);
+
+    prefetcher.prefetch([profile("a", ["a1"]), profile("b", ["b1", "b2"])]);
+    prefetcher.cancel(["b"]);
+    for (let i = 0; i < 3; i++) {
+      await flush();
+    }
+
+    expect(storage.saved).toEqual(["a1"]);
+  });
+});
@@ -0,0 +1,32 @@
+import fixtureText from "@/stores/profiles.jsonc";
+import { parseJsonc } from "@/utils/jsonc";
+import { createFixtureProfileSource } from "../profileSource";
+
+describe("parseJsonc", () => {
+  it(`ignores comments and trailing commas outside strings`, () => {
+    const text = `{
+      // a comment
+      "about": "\\"Tell us // more\\"", /* block */
+      "tags": ["a", "b",],
+    }`;
+
+    expect(parseJsonc(text)).toEqual({
+      about: '"Tell us // more"',
+      tags: ["a", "b"],
+    });
+  });
+});
+
+describe("createFixtureProfileSource", () => {
+  it(`serves batches from profiles.jsonc without the network`, async () => {
+    const batch = await createFixtureProfileSource(fixtureText).fetchBatch();
+
+    expect(batch).toHaveLength(20);
+    expect(batch[0]).toEqual(
+      expect.objectContaining({
+        id: expect.any(String),
+        info: expect.objectContaining({ name: expect.any(String) }),
+      }),
+    );
+  });
+});
@@ -0,0 +1,225 @@
+import { ANALYTICS_SINK, API_URL, SESSION_TOKEN } from "@env";
+import { apiRequest, toApiError } from "./apiClient";
+import { createId } from "@/utils/ids";
+
+/**
+ * Something the user did in the feed.
+ *   - decision: a profile was liked, disliked or skipped, or the last decision undone.
+ *   - card_impression: a card came into view.
+ *   - card_dwell: a card left view, after `durationMs` on screen.
+ *   - photo_view: a photo of the gallery was paged to.
+ *   - details_expand: the details panel of a card was opened.
+ */
+export type AnalyticsEvent =
+  | {
+      type: "decision";
+      profileId: string;
+      decision: "like" | "dislike" | "skip" | "undo";
+    }
+  | { type: "card_impression"; profileId: string }
+  | { type: "card_dwell"; profileId: string; durationMs: number }
+  | {
+      type: "photo_view";
+      profileId: string;
+      photoIndex: number;
+      photoCount: number;
+    }
+  | { type: "details_expand"; profileId: string };
+
+/**
+ * An event as recorded, stamped with when and in which session it happened.
+ */
+export type AnalyticsRecord = AnalyticsEvent & {
+  // Milliseconds since the epoch.
+  timestamp: number;
+  sessionId: string;
+};
+
+/**
+ * Where recorded events go.
+ */
+export interface AnalyticsSink {
+  // Identifies the sink, e.g. for logging.
+  name: string;
+  // Receives each event as it is recorded.
+  write: (record: AnalyticsRecord) => void;
+  // Sends anything the sink holds back, for sinks that batch.
+  flush?: () => Promise<void>;
+}
+
+/**
+ * Records feed interactions into a sink.
+ */
+export interface Analytics {
+  // Identifies this app session on every event.
+  sessionId: string;
+  // Stamps an event and writes it to the sink.
+  track: (event: AnalyticsEvent) => void;
+  // Sends events still held by a batching sink.
+  flush: () => Promise<void>;
+  // Swaps the sink, e.g. for the in-memory sink in tests.
+  setSink: (sink: AnalyticsSink) => void;
+}
+
+/**
+ * Options for the batched HTTP sink.
+ */
+export interface HttpSinkOptions {
+  // Number of events that triggers a send.
+  batchSize: number;
+  // Longest time an event waits before being sent, in milliseconds.
+  flushInterval: number;
+  // Most events held while sends fail; the oldest are dropped beyond it.
+  maxBuffered: number;
+}
+
+export const DEFAULT_HTTP_SINK_OPTIONS: HttpSinkOptions = {
+  batchSize: 20,
+  flushInterval: 10000,
+  maxBuffered: 500,
+};
+
+/**
+ * Logs every event to the console.
+ */
+export const createConsoleSink = (): AnalyticsSink => ({
+  name: "console",
+  write: (record: AnalyticsRecord) => console.log("[analytics]", record),
+});
+
+/**
+ * Keeps events in memory, e.g. for assertions in tests.
+ */
+export const createMemorySink = (): AnalyticsSink & {
+  records: AnalyticsRecord[];
+} => {
+  const records: AnalyticsRecord[] = [];
+
+  return {
+    name: "memory",
+    records,
+    write: (record: AnalyticsRecord) => {
+      records.push(record);
+    },
+  };
+};
+
+/**
+ * Sends events in batches to `POST /api/v1/events`, as served by `npm run mock-server`.
+ * A batch is sent once `batchSize` events are waiting or `flushInterval` has passed.
+ * Events of a failed send are kept for the next one.
+ *
+ * @param baseUrl - Root URL of the API.
+ * @param sessionToken - Token sent in the `session-token` header.
+ * @param options - Overrides for `DEFAULT_HTTP_SINK_OPTIONS`.
+ */
+export const createHttpSink = (
+  baseUrl: string,
+  sessionToken: string = SESSION_TOKEN,
+  options: Partial<HttpSinkOptions> = {},
+): AnalyticsSink => {
+  const { batchSize, flushInterval, maxBuffered } = {
+    ...DEFAULT_HTTP_SINK_OPTIONS,
+    ...options,
+  };
+  let buffer: AnalyticsRecord[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  // Send in flight, so batches go out one at a time and in order.
+  let sending: Promise<void> | null = null;
+
+  const send = async (): Promise<void> => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+
+    const batch = buffer;
+    buffer = [];
+    if (!batch.length) {
+      return;
+    }
+
+    try {
+      await apiRequest(
+        {
+          method: "POST",
+          url: `${baseUrl}/api/v1/events`,
+          headers: { "session-token": sessionToken },
+          data: { events: batch },
+        },
+        { retries: 1 },
+      );
+    } catch (error: unknown) {
+      console.warn("Analytics batch not sent:", toApiError(error));
+      buffer = [...batch, ...buffer].slice(-maxBuffered);
+    }
+  };
+
+  const flush = async (): Promise<void> => {
+    await sending;
+    sending = send();
+    await sending;
+    sending = null;
+  };
+
+  return {
+    name: "http",
+    write: (record: AnalyticsRecord) => {
+      buffer.push(record);
+
+      if (buffer.length >= batchSize) {
+        flush();
+      } else if (!timer) {
+        timer = setTimeout(flush, flushInterval);
+      }
+    },
+    flush,
+  };
+};
+
+/**
+ * Identifier for a new app session, to tell sessions apart in the log.
+ */
+export const createSessionId = (): string => createId();
+
+/**
+ * Creates an analytics recorder writing to the given sink.
+ *
+ * @param sink - Where events go.
+ * @param sessionId - Identifies the session on every event.
+ * @param now - Clock used for timestamps.
+ */
+export const createAnalytics = (
+  sink: AnalyticsSink,
+  sessionId: string = createSessionId(),
+  now: () => number = Date.now,
+): Analytics => {
+  let activeSink = sink;
+
+  return {
+    sessionId,
+    track: (event: AnalyticsEvent) =>
+      activeSink.write({ ...event, timestamp: now(), sessionId }),
+    flush: async () => {
+      await activeSink.flush?.();
+    },
+    setSink: (next: AnalyticsSink) => {
+      activeSink.flush?.();
+      activeSink = next;
+    },
+  };
+};
+
+/**
+ * Picks the sink named by `ANALYTICS_SINK` in `.env`: "http" or "console" (default).
+ * The HTTP sink posts to `API_URL`, e.g. the mock server.
+ */
+export const createAnalyticsSink = (
+  kind: string | undefined = ANALYTICS_SINK,
+): AnalyticsSink =>
+  kind === "http" && API_URL ? createHttpSink(API_URL) : createConsoleSink();
+
+/**
+ * Recorder shared by the app.
+ */
+export const analytics = createAnalytics(createAnalyticsSink());
@@ -0,0 +1,193 @@
+import axios, { AxiosRequestConfig } from "axios";
+
+/**
+ * Categories API failures are reported in, so the UI can react to each differently.
+ *   - network: no response, a timeout or a dropped connection.
+ *   - auth: the session token was rejected (401/403).
+ *   - server: any other error status from the server.
+ *   - parse: the response body wasn't the JSON we expected.
+ *   - cancelled: the request was aborted by the caller.
+ */
+export type ApiErrorCategory =
+  | "network"
+  | "auth"
+  | "server"
+  | "parse"
+  | "cancelled";
+
+// Client error statuses worth retrying: request timeout and rate limiting.
+const RETRYABLE_CLIENT_STATUSES = [408, 429];
+
+/**
+ * Error thrown by `apiRequest`, tagged with its category.
+ */
+export class ApiError extends Error {
+  // What kind of failure this is.
+  category: ApiErrorCategory;
+  // HTTP status, when the server responded.
+  status?: number;
+
+  constructor(category: ApiErrorCategory, message: string, status?: number) {
+    super(message);
+    this.name = "ApiError";
+    this.category = category;
+    this.status = status;
+  }
+
+  // Network failures, 5xx responses, timeouts and rate limits may succeed on a later attempt;
+  // other client errors such as 404 won't.
+  get retryable(): boolean {
+    if (this.category === "network") {
+      return true;
+    }
+    return (
+      this.category === "server" &&
+      this.status !== undefined &&
+      (this.status >= 500 || RETRYABLE_CLIENT_STATUSES.includes(this.status))
+    );
+  }
+}
+
+/**
+ * Options controlling timeouts, retries and cancellation of a request.
+ */
+export interface RequestOptions {
+  // Time allowed for each attempt, in milliseconds.
+  timeout: number;
+  // Number of retries after the first attempt for retryable failures.
+  retries: number;
+  // Base delay of the exponential backoff, in milliseconds.
+  baseDelay: number;
+  // Upper bound for a single backoff delay, in milliseconds.
+  maxDelay: number;
+  // Aborts the request, and any pending retry, when signalled.
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_REQUEST_OPTIONS: RequestOptions = {
+  timeout: 10000,
+  retries: 3,
+  baseDelay: 500,
+  maxDelay: 8000,
+};
+
+/**
+ * Backoff delay before retry number `attempt` (starting at 0), using "full jitter":
+ * a random delay between zero and the exponential ceiling.
+ */
+export const backoffDelay = (
+  attempt: number,
+  { baseDelay, maxDelay }: Pick<RequestOptions, "baseDelay" | "maxDelay">,
+): number => Math.random() * Math.min(maxDelay, baseDelay * 2 ** attempt);
+
+// Resolves after `ms`, or rejects with a cancelled error as soon as `signal` aborts.
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(new ApiError("cancelled", "Request cancelled"));
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ApiError("cancelled", "Request cancelled"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Maps anything thrown by axios to an `ApiError`.
+ */
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  if (axios.isCancel(error)) {
+    return new ApiError("cancelled", "Request cancelled");
+  }
+
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    const message =
+      (error.response?.data as { message?: string } | undefined)?.message ||
+      error.message;
+
+    if (!status) {
+      return new ApiError("network", message);
+    }
+    if (status === 401 || status === 403) {
+      return new ApiError("auth", message, status);
+    }
+    return new ApiError("server", message, status);
+  }
+
+  return new ApiError("network", String(error));
+};
+
+/**
+ * Performs a single attempt, parsing the JSON body ourselves so malformed or
+ * truncated payloads surface as parse errors rather than strings.
+ */
+const attempt = async <T>(
+  config: AxiosRequestConfig,
+  { timeout, signal }: RequestOptions,
+): Promise<T> => {
+  const response = await axios.request<string>({
+    ...config,
+    timeout,
+    signal,
+    responseType: "text",
+    transformResponse: (data) => data,
+  });
+
+  try {
+    return (
+      typeof response.data === "string"
+        ? JSON.parse(response.data)
+        : response.data
+    ) as T;
+  } catch {
+    throw new ApiError("parse", "Malformed response body", response.status);
+  }
+};
+
+/**
+ * Shared entry point for API calls.
+ * Applies a timeout to each attempt and retries network failures, 5xx responses,
+ * 408 and 429 with exponential backoff and jitter. Every failure is thrown as an `ApiError`.
+ *
+ * @param config - The axios request to perform.
+ * @param options - Overrides for `DEFAULT_REQUEST_OPTIONS`.
+ * @returns The parsed response body.
+ */
+export const apiRequest = async <T>(
+  config: AxiosRequestConfig,
+  options: Partial<RequestOptions> = {},
+): Promise<T> => {
+  const resolved = { ...DEFAULT_REQUEST_OPTIONS, ...options };
+
+  for (let retry = 0; ; retry++) {
+    try {
+      return await attempt<T>(config, resolved);
+    } catch (error) {
+      const apiError = toApiError(error);
+
+      if (
+        resolved.signal?.aborted ||
+        !apiError.retryable ||
+        retry >= resolved.retries
+      ) {
+        throw resolved.signal?.aborted
+          ? new ApiError("cancelled", "Request cancelled")
+          : apiError;
+      }
+
+      await wait(backoffDelay(retry, resolved), resolved.signal);
+    }
+  }
+};
@@ -0,0 +1,122 @@
+import { API_URL, DECISION_SYNC, SESSION_TOKEN } from "@env";
+import { ApiError, apiRequest, RequestOptions } from "./apiClient";
+import { likesBack } from "@/utils/matching";
+
+/**
+ * A decision as sent to the backend. "clear" withdraws an earlier like or dislike.
+ */
+export interface DecisionPayload {
+  // Idempotency key: the server applies each key at most once, so a batch can be resent safely.
+  key: string;
+  profileId: string;
+  decision: "like" | "dislike" | "clear";
+  // When the decision was made, in milliseconds since the epoch.
+  timestamp: number;
+}
+
+/**
+ * A decision the server refused, e.g. for a profile that no longer exists.
+ */
+export interface RejectedPayload {
+  key: string;
+  reason: string;
+}
+
+/**
+ * Outcome of a batch: every key is either accepted or rejected.
+ */
+export interface DecisionSyncResult {
+  accepted: string[];
+  rejected: RejectedPayload[];
+  // IDs of liked profiles that like the user back.
+  matches: string[];
+}
+
+/**
+ * Shape of the `POST /api/v1/decisions` response body.
+ */
+interface DecisionsResponse {
+  status: number;
+  data: DecisionSyncResult;
+}
+
+/**
+ * A place decisions are synced to.
+ */
+export interface DecisionApi {
+  // Identifies the API, e.g. for logging.
+  name: string;
+  // Sends a batch of decisions. Rejects with an `ApiError` when the batch as a whole failed.
+  send: (
+    decisions: DecisionPayload[],
+    signal?: AbortSignal,
+  ) => Promise<DecisionSyncResult>;
+}
+
+/**
+ * Sends decisions to `POST /api/v1/decisions`, as served by `npm run mock-server`.
+ * Retries are left to the outbox, which backs off across app restarts.
+ *
+ * @param baseUrl - Root URL of the API.
+ * @param sessionToken - Token sent in the `session-token` header.
+ * @param options - Timeout overrides for the API client.
+ */
+export const createHttpDecisionApi = (
+  baseUrl: string,
+  sessionToken: string = SESSION_TOKEN,
+  options: Partial<RequestOptions> = {},
+): DecisionApi => ({
+  name: "http",
+  send: async (decisions: DecisionPayload[], signal?: AbortSignal) => {
+    const body = await apiRequest<DecisionsResponse>(
+      {
+        method: "POST",
+        url: `${baseUrl}/api/v1/decisions`,
+        headers: {
+          "session-token": sessionToken,
+        },
+        data: { decisions },
+      },
+      { retries: 0, ...options, signal },
+    );
+
+    if (!Array.isArray(body?.data?.accepted)) {
+      throw new ApiError("parse", "Response is missing the accepted keys");
+    }
+
+    return {
+      accepted: body.data.accepted,
+      rejected: Array.isArray(body.data.rejected) ? body.data.rejected : [],
+      matches: Array.isArray(body.data.matches) ? body.data.matches : [],
+    };
+  },
+});
+
+/**
+ * Accepts every decision without the network, for when no backend is configured, e.g. with
+ * the fixture profile source. Likes are mutual by the deterministic `likesBack` rule.
+ */
+export const createLocalDecisionApi = (): DecisionApi => ({
+  name: "local",
+  send: async (decisions: DecisionPayload[]) => ({
+    accepted: decisions.map(({ key }: DecisionPayload) => key),
+    rejected: [],
+    matches: decisions
+      .filter(
+        ({ profileId, decision }: DecisionPayload) =>
+          decision === "like" && likesBack(profileId),
+      )
+      .map(({ profileId }: DecisionPayload) => profileId),
+  }),
+});
+
+/**
+ * Picks the decision API named by `DECISION_SYNC` in `.env`: "http", posting to `API_URL`,
+ * or "local" (default).
+ */
+export const createDecisionApi = (
+  kind: string | undefined = DECISION_SYNC,
+): DecisionApi =>
+  kind === "http" && API_URL
+    ? createHttpDecisionApi(API_URL)
+    : createLocalDecisionApi();
@@ -0,0 +1,142 @@
+/**
+ * A message on its way out, as handed to the transport.
+ */
+export interface OutgoingMessage {
+  // Client-side ID, echoed back in delivery receipts.
+  id: string;
+  // Profile the conversation is with.
+  profileId: string;
+  text: string;
+  // When the message was written, in milliseconds since the epoch.
+  sentAt: number;
+}
+
+/**
+ * Something the transport reports on its own:
+ *   - delivered: a sent message reached the other side.
+ *   - message: the other side wrote a message.
+ */
+export type TransportEvent =
+  | { type: "delivered"; profileId: string; messageId: string }
+  | {
+      type: "message";
+      profileId: string;
+      message: { id: string; text: string; sentAt: number };
+    };
+
+/**
+ * A way of exchanging messages with other profiles.
+ */
+export interface MessageTransport {
+  // Identifies the transport, e.g. for logging.
+  name: string;
+  // Sends a message. Resolves once the transport has accepted it, rejects when it can't.
+  send: (message: OutgoingMessage) => Promise<void>;
+  // Calls `listener` for every event until the returned function is called.
+  subscribe: (listener: (event: TransportEvent) => void) => () => void;
+}
+
+/**
+ * Options for the bot transport.
+ */
+export interface BotTransportOptions {
+  // Time before a message counts as sent, in milliseconds.
+  sendDelay: number;
+  // Time after sending before the delivery receipt, in milliseconds.
+  deliveryDelay: number;
+  // Time after sending before the bot answers, in milliseconds.
+  replyDelay: number;
+  // Builds the bot's answer to the `count`-th message sent to a profile, counting from 0.
+  reply: (text: string, count: number) => string;
+  // Messages the bot refuses, to exercise the failed state.
+  failWhen: (text: string) => boolean;
+}
+
+/**
+ * Lines the bot answers with, in turn.
+ */
+export const BOT_REPLIES = [
+  "Hey! Glad we matched 😊",
+  "Ha, tell me more.",
+  "What are you up to this weekend?",
+  "That sounds like fun!",
+  "I'd like that. When suits you?",
+];
+
+export const DEFAULT_BOT_OPTIONS: BotTransportOptions = {
+  sendDelay: 300,
+  deliveryDelay: 1000,
+  replyDelay: 2500,
+  reply: (text: string, count: number) =>
+    count === 0
+      ? BOT_REPLIES[0]
+      : `${BOT_REPLIES[count % BOT_REPLIES.length]} (you said "${text}")`,
+  failWhen: (text: string) => text.includes("#fail"),
+};
+
+/**
+ * Stand-in for a messaging service: every matched profile is a bot that acknowledges and
+ * answers each message after a short delay. Messages containing "#fail" are refused.
+ *
+ * @param options - Overrides for the delays, replies and refusals.
+ */
+export const createBotTransport = (
+  options: Partial<BotTransportOptions> = {},
+): MessageTransport => {
+  const { sendDelay, deliveryDelay, replyDelay, reply, failWhen } = {
+    ...DEFAULT_BOT_OPTIONS,
+    ...options,
+  };
+  const listeners = new Set<(event: TransportEvent) => void>();
+  // Messages received per profile, picking the next reply.
+  const counts = new Map<string, number>();
+
+  const emit = (event: TransportEvent): void =>
+    listeners.forEach((listener) => listener(event));
+
+  return {
+    name: "bot",
+    send: (message: OutgoingMessage) =>
+      new Promise<void>((resolve, reject) => {
+        setTimeout(() => {
+          if (failWhen(message.text)) {
+            reject(new Error("Message refused"));
+            return;
+          }
+          resolve();
+
+          const count = counts.get(message.profileId) ?? 0;
+          counts.set(message.profileId, count + 1);
+
+          setTimeout(
+            () =>
+              emit({
+                type: "delivered",
+                profileId: message.profileId,
+                messageId: message.id,
+              }),
+            deliveryDelay,
+          );
+          setTimeout(
+            () =>
+              emit({
+                type: "message",
+                profileId: message.profileId,
+                message: {
+                  id: `${message.id}-reply`,
+                  text: reply(message.text, count),
+                  sentAt: Date.now(),
+                },
+              }),
+            replyDelay,
+          );
+        }, sendDelay);
+      }),
+    subscribe: (listener: (event: TransportEvent) => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
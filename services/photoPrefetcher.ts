@@ -0,0 +1,209 @@
+import * as FileSystem from "expo-file-system";
+import { Platform } from "react-native";
+import type { Photo, Profile } from "@/stores/useProfileStore";
+import { PHOTO_CACHE_SIZE, PHOTO_PREFETCH_CONCURRENCY } from "@/constants/Feed";
+import { hashString } from "@/utils/ids";
+
+/**
+ * Where cached photos are kept.
+ */
+export interface PhotoStorage {
+  // Downloads a photo and returns a local URI it can be shown from.
+  // Rejects when the photo can't be loaded.
+  save: (url: string) => Promise<string>;
+  // Deletes a saved photo by the URI `save` returned.
+  remove: (uri: string) => void;
+}
+
+/**
+ * Keeps photos as object URLs in memory, for web.
+ */
+export const createObjectUrlStorage = (): PhotoStorage => ({
+  save: async (url: string) => {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Photo request failed with status ${response.status}`);
+    }
+    return URL.createObjectURL(await response.blob());
+  },
+  remove: (uri: string) => URL.revokeObjectURL(uri),
+});
+
+/**
+ * Keeps photos as files in a directory of the app's cache, emptied when created so files
+ * of an earlier session don't count against the limit unseen.
+ *
+ * @param directory - Directory the photos are saved in.
+ */
+export const createFileStorage = (
+  directory: string = `${FileSystem.cacheDirectory}photos/`,
+): PhotoStorage => {
+  const ready = FileSystem.deleteAsync(directory, { idempotent: true }).then(
+    () => FileSystem.makeDirectoryAsync(directory, { intermediates: true }),
+  );
+  // Added to file names, so two URLs with the same hash never share a file.
+  let saved = 0;
+
+  return {
+    save: async (url: string) => {
+      await ready;
+      const file = `${directory}${hashString(url).toString(36)}-${saved++}`;
+      const { status, uri } = await FileSystem.downloadAsync(url, file);
+
+      if (status < 200 || status >= 300) {
+        FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => {});
+        throw new Error(`Photo request failed with status ${status}`);
+      }
+      return uri;
+    },
+    remove: (uri: string) => {
+      FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => {});
+    },
+  };
+};
+
+/**
+ * Picks the photo storage of the platform: files on native, object URLs on web.
+ */
+export const createPhotoStorage = (): PhotoStorage =>
+  Platform.OS === "web" ? createObjectUrlStorage() : createFileStorage();
+
+/**
+ * Caches the photos of upcoming profiles ahead of time, in a bounded cache of its own.
+ */
+export interface PhotoPrefetcher {
+  // Replaces the queue with the photos of the given profiles, in feed order:
+  // the first photo of each profile, then the rest of each gallery.
+  prefetch: (profiles: Profile[]) => void;
+  // Drops queued photos of the given profiles, e.g. once they are decided.
+  cancel: (profileIds: string[]) => void;
+  // Returns the local URI of a cached photo, or its URL when it isn't cached.
+  resolve: (url: string) => string;
+  // Whether a photo is cached.
+  isCached: (url: string) => boolean;
+  // Number of photos currently cached.
+  size: () => number;
+  // Deletes cached photos, forgets failed ones and empties the queue.
+  clear: () => void;
+}
+
+/**
+ * A photo waiting to be prefetched, with the profile it belongs to.
+ */
+interface PrefetchTask {
+  profileId: string;
+  url: string;
+}
+
+/**
+ * Creates a prefetcher that loads at most `concurrency` photos at once and caches up to
+ * `cacheSize` of them, deleting the least recently wanted first.
+ * Loads already started can't be aborted, but their results are still cached.
+ *
+ * @param storage - Where photos are saved, `createPhotoStorage()` by default.
+ * @param cacheSize - Largest number of photos cached.
+ * @param concurrency - Largest number of photos loaded at once.
+ */
+export const createPhotoPrefetcher = (
+  storage: PhotoStorage = createPhotoStorage(),
+  cacheSize: number = PHOTO_CACHE_SIZE,
+  concurrency: number = PHOTO_PREFETCH_CONCURRENCY,
+): PhotoPrefetcher => {
+  // Local URIs by photo URL, least recently wanted first; a Map keeps insertion order.
+  const cache = new Map<string, string>();
+  // URLs that failed to load, not retried until cleared.
+  const failed = new Set<string>();
+  const inFlight = new Set<string>();
+  let queue: PrefetchTask[] = [];
+
+  /**
+   * Marks a cached URL as the most recently wanted, evicting the oldest over the limit.
+   */
+  const touch = (url: string, uri: string): void => {
+    cache.delete(url);
+    cache.set(url, uri);
+
+    while (cache.size > cacheSize) {
+      const [oldest, oldestUri] = cache.entries().next().value as [
+        string,
+        string,
+      ];
+      cache.delete(oldest);
+      storage.remove(oldestUri);
+    }
+  };
+
+  /**
+   * Starts queued loads until the concurrency limit is reached.
+   */
+  const pump = (): void => {
+    while (inFlight.size < concurrency && queue.length) {
+      const { url } = queue.shift() as PrefetchTask;
+      inFlight.add(url);
+
+      storage
+        .save(url)
+        .then((uri: string) => touch(url, uri))
+        .catch(() => failed.add(url))
+        .finally(() => {
+          inFlight.delete(url);
+          pump();
+        });
+    }
+  };
+
+  return {
+    prefetch: (profiles: Profile[]) => {
+      const toTask =
+        (profileId: string) =>
+        ({ url }: Photo): PrefetchTask => ({ profileId, url });
+      const tasks = [
+        ...profiles.flatMap(({ id, photos }: Profile) =>
+          photos.slice(0, 1).map(toTask(id)),
+        ),
+        ...profiles.flatMap(({ id, photos }: Profile) =>
+          photos.slice(1).map(toTask(id)),
+        ),
+      ];
+
+      // Keep wanted photos from being evicted, in reverse so the first stays newest.
+      [...tasks].reverse().forEach(({ url }: PrefetchTask) => {
+        const uri = cache.get(url);
+        if (uri) {
+          touch(url, uri);
+        }
+      });
+
+      const queued = new Set<string>();
+      queue = tasks.filter(({ url }: PrefetchTask) => {
+        const skip =
+          cache.has(url) ||
+          failed.has(url) ||
+          inFlight.has(url) ||
+          queued.has(url);
+        queued.add(url);
+        return !skip;
+      });
+      pump();
+    },
+    cancel: (profileIds: string[]) => {
+      queue = queue.filter(
+        ({ profileId }: PrefetchTask) => !profileIds.includes(profileId),
+      );
+    },
+    resolve: (url: string) => cache.get(url) ?? url,
+    isCached: (url: string) => cache.has(url),
+    size: () => cache.size,
+    clear: () => {
+      cache.forEach((uri: string) => storage.remove(uri));
+      cache.clear();
+      failed.clear();
+      queue = [];
+    },
+  };
+};
+
+/**
+ * Prefetcher shared by the feed.
+ */
+export const photoPrefetcher = createPhotoPrefetcher();
@@ -0,0 +1,116 @@
+import { API_URL, PROFILE_SOURCE, SESSION_TOKEN } from "@env";
+import { ApiError, apiRequest, RequestOptions } from "./apiClient";
+import { parseJsonc } from "@/utils/jsonc";
+
+/**
+ * Shape of the `/api/v1/users` response body, shared by every source.
+ */
+export interface ProfilesResponse {
+  status: number;
+  data: unknown[];
+}
+
+/**
+ * A place profiles can be loaded from.
+ * Each call to `fetchBatch` returns one random batch, like `/api/v1/users`.
+ */
+export interface ProfileSource {
+  // Identifies the source, e.g. for logging.
+  name: string;
+  // Fetches the next batch of raw profile records, validated by the store.
+  // May contain duplicate IDs. Rejects with an `ApiError` on failure, including when `signal` aborts.
+  fetchBatch: (signal?: AbortSignal) => Promise<unknown[]>;
+  // Fetches the raw record of a single profile, e.g. the partner of a couple.
+  // Rejects with an `ApiError` on failure, including a `server` error with status 404 when unknown.
+  // Missing on sources that can't look up single profiles, such as the hosted API.
+  fetchProfile?: (id: string, signal?: AbortSignal) => Promise<unknown>;
+}
+
+// Hosted API used unless `API_URL` points somewhere else.
+const DEFAULT_API_URL = "https://fld-devtest-api.herokuapp.com";
+
+// Number of profiles returned per batch by the API.
+const BATCH_SIZE = 20;
+
+/**
+ * Loads profiles from the HTTP API through the shared API client.
+ * The API only serves batches, so single profiles are never looked up.
+ *
+ * @param baseUrl - Root URL of the API.
+ * @param sessionToken - Token sent in the `session-token` header.
+ * @param options - Timeout and retry overrides for the API client.
+ */
+export const createHttpProfileSource = (
+  baseUrl: string = API_URL || DEFAULT_API_URL,
+  sessionToken: string = SESSION_TOKEN,
+  options: Partial<RequestOptions> = {},
+): ProfileSource => ({
+  name: "http",
+  fetchBatch: async (signal?: AbortSignal) => {
+    const body = await apiRequest<ProfilesResponse>(
+      {
+        method: "GET",
+        url: `${baseUrl}/api/v1/users`,
+        headers: {
+          "session-token": sessionToken,
+        },
+      },
+      { ...options, signal },
+    );
+
+    if (!Array.isArray(body?.data)) {
+      throw new ApiError("parse", "Response is missing the profile list");
+    }
+
+    return body.data;
+  },
+});
+
+/**
+ * Serves random batches from the local `profiles.jsonc` fixture, with no network.
+ * The fixture keeps the comments and duplicate IDs of a real response.
+ *
+ * @param text - JSONC fixture text, e.g. `stores/profiles.jsonc`.
+ */
+export const createFixtureProfileSource = (text: string): ProfileSource => {
+  const pool = parseJsonc<ProfilesResponse>(text).data;
+
+  return {
+    name: "fixture",
+    fetchBatch: async (signal?: AbortSignal) => {
+      if (signal?.aborted) {
+        throw new ApiError("cancelled", "Request cancelled");
+      }
+
+      return [...pool]
+        .map((profile: unknown) => ({ profile, order: Math.random() }))
+        .sort((a, b) => a.order - b.order)
+        .slice(0, BATCH_SIZE)
+        .map(({ profile }) => profile);
+    },
+    fetchProfile: async (id: string, signal?: AbortSignal) => {
+      if (signal?.aborted) {
+        throw new ApiError("cancelled", "Request cancelled");
+      }
+
+      const profile = pool.find(
+        (record: unknown) => (record as { id?: unknown })?.id === id,
+      );
+      if (!profile) {
+        throw new ApiError("server", "Profile not found", 404);
+      }
+
+      return profile;
+    },
+  };
+};
+
+/**
+ * Picks the profile source named by `PROFILE_SOURCE` in `.env`: "fixture" or "http" (default).
+ * The fixture is only required in fixture mode: `PROFILE_SOURCE` is inlined at build time,
+ * so production bundles of the http source leave it out.
+ */
+export const createProfileSource = (): ProfileSource =>
+  PROFILE_SOURCE === "fixture"
+    ? createFixtureProfileSource(require("@/stores/profiles.jsonc") as string)
+    : createHttpProfileSource();
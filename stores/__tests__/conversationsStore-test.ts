@@ -0,0 +1,74 @@
+import { createBotTransport } from "@/services/messageTransport";
+import { startMessaging, useConversationsStore } from "../conversationsStore";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock"),
+);
+
+const statuses = (profileId: string) =>
+  useConversationsStore
+    .getState()
+    .conversations[
+      profileId
+    ].messages.map(({ from, status }) => [from, status]);
+
+describe("useConversationsStore", () => {
+  let stopMessaging: () => void;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    useConversationsStore.setState({
+      conversations: {},
+      hasHydrated: true,
+      transport: createBotTransport({
+        sendDelay: 100,
+        deliveryDelay: 200,
+        replyDelay: 300,
+      }),
+    });
+    stopMessaging = startMessaging();
+  });
+
+  afterEach(() => {
+    stopMessaging();
+    jest.useRealTimers();
+  });
+
+  it(`moves a message from sending to delivered and records the reply`, async () => {
+    useConversationsStore.getState().sendMessage("a", "Hi!");
+    expect(statuses("a")).toEqual([["me", "sending"]]);
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(statuses("a")).toEqual([["me", "sent"]]);
+
+    await jest.advanceTimersByTimeAsync(300);
+    expect(statuses("a")).toEqual([
+      ["me", "delivered"],
+      ["them", "delivered"],
+    ]);
+    expect(useConversationsStore.getState().conversations.a.unread).toBe(1);
+
+    useConversationsStore.getState().markRead("a");
+    expect(useConversationsStore.getState().conversations.a.unread).toBe(0);
+  });
+
+  it(`marks refused messages failed and sends them again on retry`, async () => {
+    let refuse = true;
+    useConversationsStore
+      .getState()
+      .setTransport(
+        createBotTransport({ sendDelay: 100, failWhen: () => refuse }),
+      );
+
+    useConversationsStore.getState().sendMessage("a", "Hi!");
+    await jest.advanceTimersByTimeAsync(100);
+    expect(statuses("a")).toEqual([["me", "failed"]]);
+
+    refuse = false;
+    const [message] = useConversationsStore.getState().conversations.a.messages;
+    useConversationsStore.getState().retryMessage("a", message.id);
+    await jest.advanceTimersByTimeAsync(100);
+    expect(statuses("a")).toEqual([["me", "sent"]]);
+  });
+});
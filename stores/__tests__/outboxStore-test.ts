@@ -0,0 +1,171 @@
+import { DecisionApi, DecisionPayload } from "@/services/decisionApi";
+import NetInfo, { type NetInfoState } from "@react-native-community/netinfo";
+import { useMatchesStore } from "../matchesStore";
+import { startDecisionSync, useOutboxStore } from "../outboxStore";
+import { useUserStore } from "../userStore";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock"),
+);
+jest.mock("@react-native-community/netinfo", () =>
+  require("@react-native-community/netinfo/jest/netinfo-mock"),
+);
+
+// Fake API rejecting decisions on the given profiles and accepting the rest.
+const fakeApi = (
+  rejectedIds: string[] = [],
+): DecisionApi & { sent: DecisionPayload[][] } => {
+  const sent: DecisionPayload[][] = [];
+
+  return {
+    name: "fake",
+    sent,
+    send: async (decisions: DecisionPayload[]) => {
+      sent.push(decisions);
+      return {
+        accepted: decisions
+          .filter(({ profileId }) => !rejectedIds.includes(profileId))
+          .map(({ key }) => key),
+        rejected: decisions
+          .filter(({ profileId }) => rejectedIds.includes(profileId))
+          .map(({ key }) => ({ key, reason: "Unknown profile" })),
+        matches: [],
+      };
+    },
+  };
+};
+
+describe("useOutboxStore", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    useOutboxStore.setState({
+      entries: [],
+      rejected: [],
+      failures: 0,
+      isSyncing: false,
+      hasHydrated: true,
+    });
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it(`keeps one unsent decision per profile`, () => {
+    const { enqueue } = useOutboxStore.getState();
+
+    enqueue("a", "like");
+    enqueue("a", "dislike");
+    enqueue("b", "like");
+
+    expect(
+      useOutboxStore
+        .getState()
+        .entries.map(({ profileId, decision }) => [profileId, decision]),
+    ).toEqual([
+      ["a", "dislike"],
+      ["b", "like"],
+    ]);
+  });
+
+  it(`sends queued decisions and reverts rejected ones`, async () => {
+    const api = fakeApi(["b"]);
+    useOutboxStore.getState().setApi(api);
+    useUserStore.setState({ likes: ["a", "b"], dislikes: [] });
+
+    useOutboxStore.getState().enqueue("a", "like");
+    useOutboxStore.getState().enqueue("b", "like");
+    await useOutboxStore.getState().flush();
+
+    expect(api.sent).toHaveLength(1);
+    expect(useOutboxStore.getState().entries).toEqual([]);
+    expect(useOutboxStore.getState().rejected).toEqual([
+      expect.objectContaining({ profileId: "b", reason: "Unknown profile" }),
+    ]);
+    expect(useUserStore.getState().likes).toEqual(["a"]);
+  });
+
+  it(`reverts only the rejected half of a couple`, async () => {
+    useOutboxStore.getState().setApi(fakeApi(["b"]));
+    useUserStore.setState({ likes: [], dislikes: [], history: [] });
+    useUserStore.getState().addLike("a", "b");
+
+    useOutboxStore.getState().enqueue("a", "like");
+    useOutboxStore.getState().enqueue("b", "like");
+    await useOutboxStore.getState().flush();
+
+    expect(useUserStore.getState().likes).toEqual(["a"]);
+  });
+
+  it(`records matches on profiles that are still liked`, async () => {
+    useOutboxStore.getState().setApi({
+      name: "mutual",
+      send: async (decisions: DecisionPayload[]) => ({
+        accepted: decisions.map(({ key }) => key),
+        rejected: [],
+        matches: decisions.map(({ profileId }) => profileId),
+      }),
+    });
+    useMatchesStore.setState({ matches: [], celebrations: [] });
+    useUserStore.setState({ likes: ["a"], dislikes: [] });
+
+    useOutboxStore.getState().enqueue("a", "like");
+    useOutboxStore.getState().enqueue("b", "like");
+    await useOutboxStore.getState().flush();
+
+    expect(useMatchesStore.getState().matches).toEqual([
+      expect.objectContaining({ profileId: "a" }),
+    ]);
+    expect(useMatchesStore.getState().celebrations).toEqual(["a"]);
+  });
+
+  it(`keeps decisions and backs off when sending fails`, async () => {
+    useOutboxStore.getState().setApi({
+      name: "offline",
+      send: async () => {
+        throw new Error("offline");
+      },
+    });
+
+    useOutboxStore.getState().enqueue("a", "like");
+    await useOutboxStore.getState().flush();
+
+    const { entries, failures } = useOutboxStore.getState();
+    expect(entries).toEqual([
+      expect.objectContaining({ profileId: "a", attempts: 1 }),
+    ]);
+    expect(failures).toBe(1);
+  });
+
+  it(`backs off when the server answers none of the decisions`, async () => {
+    useOutboxStore.getState().setApi({
+      name: "silent",
+      send: async () => ({ accepted: [], rejected: [], matches: [] }),
+    });
+
+    useOutboxStore.getState().enqueue("a", "like");
+    jest.clearAllTimers();
+    await useOutboxStore.getState().flush();
+
+    expect(useOutboxStore.getState().entries).toHaveLength(1);
+    expect(useOutboxStore.getState().failures).toBe(1);
+    expect(jest.getTimerCount()).toBe(1);
+  });
+
+  it(`retries straight away when the device reconnects`, () => {
+    const api = fakeApi();
+    useOutboxStore.getState().setApi(api);
+    jest.mocked(NetInfo.addEventListener).mockReturnValue(jest.fn());
+    const stop = startDecisionSync();
+    const [[onChange]] = jest.mocked(NetInfo.addEventListener).mock.calls;
+
+    useOutboxStore.getState().enqueue("a", "like");
+    useOutboxStore.setState({ failures: 2 });
+    onChange({ isConnected: true } as NetInfoState);
+    onChange({ isConnected: false } as NetInfoState);
+    expect(api.sent).toHaveLength(0);
+
+    onChange({ isConnected: true } as NetInfoState);
+    expect(api.sent).toHaveLength(1);
+    stop();
+  });
+});
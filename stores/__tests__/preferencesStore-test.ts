@@ -0,0 +1,38 @@
+import {
+  DEFAULT_PREFERENCES,
+  PREFERENCES_MAX_AGE,
+} from "@/constants/Preferences";
+import {
+  migratePreferencesStore,
+  PREFERENCES_STORE_VERSION,
+} from "../preferencesStore";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock"),
+);
+
+describe("migratePreferencesStore", () => {
+  it(`keeps an age range that reached the old limit open-ended`, () => {
+    const migrated = migratePreferencesStore(
+      { preferences: { ...DEFAULT_PREFERENCES, minAge: 30, maxAge: 99 } },
+      1,
+    );
+
+    expect(migrated.preferences?.minAge).toBe(30);
+    expect(migrated.preferences?.maxAge).toBe(PREFERENCES_MAX_AGE);
+  });
+
+  it(`leaves a narrowed age range and current state untouched`, () => {
+    const narrowed = {
+      preferences: { ...DEFAULT_PREFERENCES, maxAge: 60 },
+    };
+    const current = {
+      preferences: { ...DEFAULT_PREFERENCES, maxAge: 99 },
+    };
+
+    expect(migratePreferencesStore(narrowed, 1)).toBe(narrowed);
+    expect(migratePreferencesStore(current, PREFERENCES_STORE_VERSION)).toBe(
+      current,
+    );
+  });
+});
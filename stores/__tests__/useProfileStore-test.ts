@@ -0,0 +1,74 @@
+import { ProfileSource } from "@/services/profileSource";
+import { useProfileStore } from "../useProfileStore";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock"),
+);
+
+const record = (id: string) => ({
+  id,
+  info: {
+    age: 30,
+    type: "single",
+    gender: "female",
+    sexuality: "straight",
+    name: "Kirra",
+    about: "",
+    desires: [],
+    interests: [],
+  },
+  associated: null,
+  photos: [
+    { url: "https://images.unsplash.com/photo-1", width: 716, height: 900 },
+  ],
+});
+
+// Source whose batches are answered by the test, one request at a time.
+const pendingSource = () => {
+  const requests: ((batch: unknown[]) => void)[] = [];
+  const source: ProfileSource = {
+    name: "pending",
+    fetchBatch: () => new Promise((resolve) => requests.push(resolve)),
+    fetchProfile: async () => null,
+  };
+  return { source, requests };
+};
+
+describe("useProfileStore", () => {
+  it(`doesn't fetch more while a refresh is running`, async () => {
+    const { source, requests } = pendingSource();
+    useProfileStore.getState().setSource(source);
+    useProfileStore.setState({ profiles: [], hasMore: true });
+
+    const refresh = useProfileStore.getState().refreshProfiles();
+    await useProfileStore.getState().fetchMoreProfiles();
+    expect(requests).toHaveLength(1);
+
+    requests[0]([record("a")]);
+    await refresh;
+
+    const { isRefreshing, isFetchingMore, profiles } =
+      useProfileStore.getState();
+    expect(isRefreshing).toBe(false);
+    expect(isFetchingMore).toBe(false);
+    expect(profiles.map(({ id }) => id)).toEqual(["a"]);
+  });
+
+  it(`doesn't refresh while the first load is running`, async () => {
+    const { source, requests } = pendingSource();
+    useProfileStore.getState().setSource(source);
+    useProfileStore.setState({ profiles: [], hasMore: true });
+
+    const load = useProfileStore.getState().fetchProfiles();
+    await useProfileStore.getState().refreshProfiles();
+    expect(requests).toHaveLength(1);
+
+    requests[0]([record("a")]);
+    await load;
+
+    const { isLoading, isRefreshing, profiles } = useProfileStore.getState();
+    expect(isLoading).toBe(false);
+    expect(isRefreshing).toBe(false);
+    expect(profiles.map(({ id }) => id)).toEqual(["a"]);
+  });
+});
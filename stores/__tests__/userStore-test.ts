@@ -0,0 +1,169 @@
+import {
+  DECISION_HISTORY_LIMIT,
+  EMPTY_OWN_PROFILE,
+  migrateUserStore,
+  USER_STORE_VERSION,
+  useUserStore,
+} from "../userStore";
+import { type Profile } from "../useProfileStore";
+
+jest.mock("@react-native-async-storage/async-storage", () =>
+  require("@react-native-async-storage/async-storage/jest/async-storage-mock"),
+);
+
+const profile = (id: string): Profile => ({
+  id,
+  info: {
+    ...EMPTY_OWN_PROFILE.info,
+    name: id,
+  },
+  associated: null,
+  photos: [],
+});
+
+describe("migrateUserStore", () => {
+  it(`sanitises state saved before the first schema version`, () => {
+    const migrated = migrateUserStore(
+      { likes: ["a", "a", 3], dislikes: "b", user: null },
+      0,
+    );
+
+    expect(migrated).toEqual({
+      user: EMPTY_OWN_PROFILE,
+      likes: ["a"],
+      dislikes: [],
+      history: [],
+      skipped: [],
+      decidedProfiles: {},
+    });
+  });
+
+  it(`moves saved user details into a typed own profile`, () => {
+    const migrated = migrateUserStore(
+      {
+        user: { name: "Sam", age: "30" },
+        likes: [],
+        dislikes: [],
+        skipped: [],
+        history: [],
+      },
+      3,
+    );
+
+    expect(migrated.user.info.name).toBe("Sam");
+    expect(migrated.user.info.age).toBe(EMPTY_OWN_PROFILE.info.age);
+    expect(migrated.user.photos).toEqual([]);
+  });
+
+  it(`leaves current state untouched`, () => {
+    const state = {
+      user: EMPTY_OWN_PROFILE,
+      likes: ["a"],
+      dislikes: ["b"],
+      skipped: [],
+      history: [],
+      decidedProfiles: {},
+    };
+
+    expect(migrateUserStore(state, USER_STORE_VERSION)).toBe(state);
+  });
+});
+
+describe("undo", () => {
+  beforeEach(() => {
+    useUserStore.setState({
+      likes: [],
+      dislikes: [],
+      skipped: [],
+      history: [],
+    });
+  });
+
+  it(`reverts decisions one level at a time`, () => {
+    const { addLike, addDislike, undo } = useUserStore.getState();
+    addLike("a");
+    addDislike("b");
+
+    expect(undo()?.profileId).toBe("b");
+    expect(useUserStore.getState().dislikes).toEqual([]);
+    expect(undo()?.profileId).toBe("a");
+    expect(useUserStore.getState().likes).toEqual([]);
+    expect(undo()).toBeUndefined();
+  });
+
+  it(`restores an earlier decision on the same profile`, () => {
+    const { addLike, addDislike, undo } = useUserStore.getState();
+    addLike("a");
+    addDislike("a");
+    undo();
+
+    expect(useUserStore.getState().likes).toEqual(["a"]);
+    expect(useUserStore.getState().dislikes).toEqual([]);
+  });
+
+  it(`keeps skips apart from dislikes`, () => {
+    const { addSkip, addLike, undo } = useUserStore.getState();
+    addSkip("a");
+
+    expect(useUserStore.getState().skipped).toEqual(["a"]);
+    expect(useUserStore.getState().dislikes).toEqual([]);
+
+    addLike("a");
+    expect(useUserStore.getState().skipped).toEqual([]);
+
+    undo();
+    expect(useUserStore.getState().skipped).toEqual(["a"]);
+  });
+
+  it(`applies and reverts a couple decision on both partners`, () => {
+    const { addLike, undo } = useUserStore.getState();
+    addLike("a", "b");
+
+    expect(useUserStore.getState().likes).toEqual(["a", "b"]);
+    expect(useUserStore.getState().history).toHaveLength(1);
+
+    undo();
+    expect(useUserStore.getState().likes).toEqual([]);
+  });
+
+  it(`keeps the history bounded`, () => {
+    const { addLike } = useUserStore.getState();
+    for (let i = 0; i <= DECISION_HISTORY_LIMIT; i++) {
+      addLike(`${i}`);
+    }
+
+    expect(useUserStore.getState().history).toHaveLength(
+      DECISION_HISTORY_LIMIT,
+    );
+  });
+});
+
+describe("removeLike", () => {
+  it(`clears a couple's decision, history and kept copies together`, () => {
+    useUserStore.setState({
+      likes: [],
+      dislikes: [],
+      skipped: [],
+      history: [],
+      decidedProfiles: {},
+    });
+    const { addLike, addDislike, removeLike, rememberProfiles } =
+      useUserStore.getState();
+    rememberProfiles([
+      { ...profile("a"), associated: "b" },
+      { ...profile("b"), associated: "a" },
+      profile("c"),
+    ]);
+    addLike("a", "b");
+    addDislike("c");
+
+    removeLike("b");
+
+    const { likes, dislikes, history, decidedProfiles } =
+      useUserStore.getState();
+    expect(likes).toEqual([]);
+    expect(dislikes).toEqual(["c"]);
+    expect(history.map(({ profileId }) => profileId)).toEqual(["c"]);
+    expect(Object.keys(decidedProfiles)).toEqual(["c"]);
+  });
+});
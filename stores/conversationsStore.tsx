@@ -0,0 +1,307 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { persistStorage } from "./storage";
+import {
+  createBotTransport,
+  MessageTransport,
+  TransportEvent,
+} from "@/services/messageTransport";
+import { createId } from "@/utils/ids";
+
+/**
+ * Where a message is:
+ *   - sending: handed to the transport, not accepted yet.
+ *   - sent: accepted by the transport.
+ *   - delivered: reached the other side. Received messages are always delivered.
+ *   - failed: refused, or still sending when the app closed; can be retried.
+ */
+export type MessageStatus = "sending" | "sent" | "delivered" | "failed";
+
+/**
+ * A message in a conversation.
+ */
+export interface Message {
+  id: string;
+  // "me" for messages the user wrote, "them" for received ones.
+  from: "me" | "them";
+  text: string;
+  // When the message was written, in milliseconds since the epoch.
+  sentAt: number;
+  status: MessageStatus;
+}
+
+/**
+ * The messages exchanged with one profile.
+ */
+export interface Conversation {
+  profileId: string;
+  // Messages, oldest first
+  messages: Message[];
+  // Received messages not seen yet
+  unread: number;
+}
+
+/**
+ * Type definition for the conversations store state.
+ */
+interface ConversationsStoreState {
+  // How messages are exchanged
+  transport: MessageTransport;
+  // Conversations by profile ID
+  conversations: Record<string, Conversation>;
+  // True once the saved conversations have been loaded back from storage
+  hasHydrated: boolean;
+  // Function to write a message to a profile and send it
+  sendMessage: (profileId: string, text: string) => void;
+  // Function to send a failed message again
+  retryMessage: (profileId: string, messageId: string) => void;
+  // Function to apply an event reported by the transport
+  receive: (event: TransportEvent) => void;
+  // Function to mark a conversation's messages as seen
+  markRead: (profileId: string) => void;
+  // Function to swap the transport, e.g. for a fake in tests
+  setTransport: (transport: MessageTransport) => void;
+}
+
+/**
+ * Current schema version of the persisted conversations.
+ */
+export const CONVERSATIONS_STORE_VERSION = 1;
+
+/**
+ * Returns the conversations with `change` applied to one message of one conversation.
+ */
+const updateMessage = (
+  conversations: Record<string, Conversation>,
+  profileId: string,
+  messageId: string,
+  change: (message: Message) => Partial<Message>,
+): Record<string, Conversation> => {
+  const conversation = conversations[profileId];
+  if (!conversation) {
+    return conversations;
+  }
+
+  return {
+    ...conversations,
+    [profileId]: {
+      ...conversation,
+      messages: conversation.messages.map((message: Message) =>
+        message.id === messageId ? { ...message, ...change(message) } : message,
+      ),
+    },
+  };
+};
+
+/**
+ * Zustand store for conversations with matched profiles, persisted like the user store.
+ */
+export const useConversationsStore = create<ConversationsStoreState>()(
+  persist(
+    (set, get) => {
+      // Hands a message to the transport and records the outcome.
+      const deliver = (profileId: string, message: Message): void => {
+        get()
+          .transport.send({ ...message, profileId })
+          .then(() =>
+            set((state: ConversationsStoreState) => ({
+              conversations: updateMessage(
+                state.conversations,
+                profileId,
+                message.id,
+                // A delivery receipt may already have come in.
+                ({ status }: Message) => ({
+                  status: status === "sending" ? "sent" : status,
+                }),
+              ),
+            })),
+          )
+          .catch((error: unknown) => {
+            console.warn(`Message to ${profileId} failed:`, error);
+            set((state: ConversationsStoreState) => ({
+              conversations: updateMessage(
+                state.conversations,
+                profileId,
+                message.id,
+                () => ({ status: "failed" }),
+              ),
+            }));
+          });
+      };
+
+      return {
+        transport: createBotTransport(),
+        conversations: {},
+        hasHydrated: false,
+
+        // Add the message to the conversation and send it
+        sendMessage: (profileId: string, text: string) => {
+          const message: Message = {
+            id: createId(),
+            from: "me",
+            text: text.trim(),
+            sentAt: Date.now(),
+            status: "sending",
+          };
+          if (!message.text) {
+            return;
+          }
+
+          set((state: ConversationsStoreState) => {
+            const conversation = state.conversations[profileId] ?? {
+              profileId,
+              messages: [],
+              unread: 0,
+            };
+
+            return {
+              conversations: {
+                ...state.conversations,
+                [profileId]: {
+                  ...conversation,
+                  messages: [...conversation.messages, message],
+                },
+              },
+            };
+          });
+          deliver(profileId, message);
+        },
+
+        // Send a failed message again, keeping its place in the conversation
+        retryMessage: (profileId: string, messageId: string) => {
+          const message = get().conversations[profileId]?.messages.find(
+            ({ id }: Message) => id === messageId,
+          );
+          if (message?.status !== "failed") {
+            return;
+          }
+
+          set((state: ConversationsStoreState) => ({
+            conversations: updateMessage(
+              state.conversations,
+              profileId,
+              messageId,
+              () => ({ status: "sending" }),
+            ),
+          }));
+          deliver(profileId, message);
+        },
+
+        // Mark a message delivered, or add a received one
+        receive: (event: TransportEvent) => {
+          if (event.type === "delivered") {
+            set((state: ConversationsStoreState) => ({
+              conversations: updateMessage(
+                state.conversations,
+                event.profileId,
+                event.messageId,
+                () => ({ status: "delivered" }),
+              ),
+            }));
+            return;
+          }
+
+          set((state: ConversationsStoreState) => {
+            const conversation = state.conversations[event.profileId] ?? {
+              profileId: event.profileId,
+              messages: [],
+              unread: 0,
+            };
+            if (
+              conversation.messages.some(
+                ({ id }: Message) => id === event.message.id,
+              )
+            ) {
+              return state;
+            }
+
+            return {
+              conversations: {
+                ...state.conversations,
+                [event.profileId]: {
+                  ...conversation,
+                  messages: [
+                    ...conversation.messages,
+                    { ...event.message, from: "them", status: "delivered" },
+                  ],
+                  unread: conversation.unread + 1,
+                },
+              },
+            };
+          });
+        },
+
+        // Reset the unread count of a conversation
+        markRead: (profileId: string) =>
+          set((state: ConversationsStoreState) =>
+            state.conversations[profileId]?.unread
+              ? {
+                  conversations: {
+                    ...state.conversations,
+                    [profileId]: {
+                      ...state.conversations[profileId],
+                      unread: 0,
+                    },
+                  },
+                }
+              : state,
+          ),
+
+        // Swap the transport
+        setTransport: (transport: MessageTransport) => set({ transport }),
+      };
+    },
+    {
+      name: "smoche-conversations",
+      version: CONVERSATIONS_STORE_VERSION,
+      storage: persistStorage,
+      partialize: (state) => ({
+        conversations: state.conversations,
+      }),
+      // Hydration is started explicitly by the root layout, before the splash screen hides.
+      skipHydration: true,
+      onRehydrateStorage: () => () => {
+        // Messages still sending when the app closed are lost; the user can retry them.
+        useConversationsStore.setState((state: ConversationsStoreState) => ({
+          hasHydrated: true,
+          conversations: Object.fromEntries(
+            Object.entries(state.conversations).map(([id, conversation]) => [
+              id,
+              {
+                ...conversation,
+                messages: conversation.messages.map((message: Message) =>
+                  message.status === "sending"
+                    ? { ...message, status: "failed" as MessageStatus }
+                    : message,
+                ),
+              },
+            ]),
+          ),
+        }));
+      },
+    },
+  ),
+);
+
+/**
+ * Starts applying transport events to the store, following the transport if it is swapped.
+ * Call once the conversations store has hydrated.
+ *
+ * @returns A function that stops listening.
+ */
+export const startMessaging = (): (() => void) => {
+  const { transport, receive } = useConversationsStore.getState();
+  let stopListening = transport.subscribe(receive);
+
+  const unsubscribe = useConversationsStore.subscribe((state, previous) => {
+    if (state.transport !== previous.transport) {
+      stopListening();
+      stopListening = state.transport.subscribe(state.receive);
+    }
+  });
+
+  return () => {
+    unsubscribe();
+    stopListening();
+  };
+};
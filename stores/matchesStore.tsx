@@ -0,0 +1,103 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { persistStorage } from "./storage";
+
+/**
+ * A profile the user liked that liked them back.
+ */
+export interface Match {
+  profileId: string;
+  // When the match was reported, in milliseconds since the epoch.
+  matchedAt: number;
+}
+
+/**
+ * Type definition for the matches store state.
+ */
+interface MatchesStoreState {
+  // Matches, newest last
+  matches: Match[];
+  // IDs of matched profiles whose "It's a match" overlay hasn't been shown yet, oldest first
+  celebrations: string[];
+  // True once the saved matches have been loaded back from storage
+  hasHydrated: boolean;
+  // Function to record mutual likes, skipping profiles already matched
+  addMatches: (profileIds: string[]) => void;
+  // Function to end a match, e.g. once the like is withdrawn
+  removeMatch: (profileId: string) => void;
+  // Function to mark overlays as shown
+  dismissCelebrations: (profileIds: string[]) => void;
+}
+
+/**
+ * Current schema version of the persisted matches store.
+ */
+export const MATCHES_STORE_VERSION = 1;
+
+/**
+ * Zustand store for matches, persisted like the user store.
+ */
+export const useMatchesStore = create<MatchesStoreState>()(
+  persist(
+    (set) => ({
+      matches: [],
+      celebrations: [],
+      hasHydrated: false,
+
+      // Record new matches and queue their overlays
+      addMatches: (profileIds: string[]) =>
+        set((state: MatchesStoreState) => {
+          const matched = new Set(
+            state.matches.map(({ profileId }: Match) => profileId),
+          );
+          const added = [...new Set(profileIds)].filter(
+            (profileId: string) => !matched.has(profileId),
+          );
+
+          return {
+            matches: [
+              ...state.matches,
+              ...added.map((profileId: string) => ({
+                profileId,
+                matchedAt: Date.now(),
+              })),
+            ],
+            celebrations: [...state.celebrations, ...added],
+          };
+        }),
+
+      // Forget a match and any overlay still waiting for it
+      removeMatch: (profileId: string) =>
+        set((state: MatchesStoreState) => ({
+          matches: state.matches.filter(
+            (match: Match) => match.profileId !== profileId,
+          ),
+          celebrations: state.celebrations.filter(
+            (id: string) => id !== profileId,
+          ),
+        })),
+
+      // Drop shown overlays from the queue
+      dismissCelebrations: (profileIds: string[]) =>
+        set((state: MatchesStoreState) => ({
+          celebrations: state.celebrations.filter(
+            (id: string) => !profileIds.includes(id),
+          ),
+        })),
+    }),
+    {
+      name: "smoche-matches",
+      version: MATCHES_STORE_VERSION,
+      storage: persistStorage,
+      partialize: (state) => ({
+        matches: state.matches,
+        celebrations: state.celebrations,
+      }),
+      // Hydration is started explicitly by the root layout, before the splash screen hides.
+      skipHydration: true,
+      onRehydrateStorage: () => () => {
+        useMatchesStore.setState({ hasHydrated: true });
+      },
+    },
+  ),
+);
@@ -0,0 +1,313 @@
+import NetInfo, { type NetInfoState } from "@react-native-community/netinfo";
+import { AppState } from "react-native";
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { persistStorage } from "./storage";
+import { useMatchesStore } from "./matchesStore";
+import { useUserStore } from "./userStore";
+import { ApiError, backoffDelay, toApiError } from "@/services/apiClient";
+import {
+  createDecisionApi,
+  DecisionApi,
+  DecisionPayload,
+  RejectedPayload,
+} from "@/services/decisionApi";
+import { createId } from "@/utils/ids";
+
+/**
+ * A decision waiting to be synced, with how often sending it has failed.
+ */
+export interface OutboxEntry extends DecisionPayload {
+  attempts: number;
+}
+
+/**
+ * A decision the server refused, kept for diagnostics.
+ */
+export interface RejectedDecision extends DecisionPayload {
+  reason: string;
+}
+
+// Most decisions sent in one request.
+export const OUTBOX_BATCH_SIZE = 20;
+
+// Time decisions are gathered before a batch is sent, in milliseconds.
+export const OUTBOX_FLUSH_DELAY = 2000;
+
+// Backoff between failed sends, longer than for interactive requests since nobody waits on it.
+export const OUTBOX_BACKOFF = { baseDelay: 2000, maxDelay: 5 * 60 * 1000 };
+
+// Number of rejected decisions kept.
+export const OUTBOX_REJECTED_LIMIT = 20;
+
+/**
+ * Type definition for the outbox store state.
+ */
+interface OutboxStoreState {
+  // Where decisions are sent
+  api: DecisionApi;
+  // Decisions waiting to be sent, oldest first
+  entries: OutboxEntry[];
+  // Most recent decisions the server refused, oldest first
+  rejected: RejectedDecision[];
+  // True while a batch is being sent
+  isSyncing: boolean;
+  // Sends that failed in a row, driving the backoff
+  failures: number;
+  // True once the saved queue has been loaded back from storage
+  hasHydrated: boolean;
+  // Function to queue a decision, replacing one for the same profile that wasn't sent yet
+  enqueue: (profileId: string, decision: DecisionPayload["decision"]) => void;
+  // Function to send queued decisions now, batch by batch
+  flush: () => Promise<void>;
+  // Function to swap the decision API, e.g. for a fake in tests
+  setApi: (api: DecisionApi) => void;
+}
+
+/**
+ * Current schema version of the persisted outbox.
+ */
+export const OUTBOX_STORE_VERSION = 1;
+
+// Pending flush, either gathering decisions or waiting out a backoff.
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Keys of the batch being sent, which can't be replaced any more.
+let inFlight = new Set<string>();
+
+// Set while rejected decisions are reverted, so reverting doesn't queue a "clear".
+let reconciling = false;
+
+// Replaces any pending flush with one after `delay` milliseconds.
+const scheduleFlush = (delay: number): void => {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+  }
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    useOutboxStore.getState().flush();
+  }, delay);
+};
+
+/**
+ * Reverts rejected decisions that are still the user's current decision on the profile,
+ * so the device agrees with the server.
+ */
+const revertRejected = (rejected: RejectedDecision[]): void => {
+  const { likes, dislikes, revertDecision } = useUserStore.getState();
+
+  reconciling = true;
+  rejected.forEach(({ profileId, decision, reason }: RejectedDecision) => {
+    console.warn(`Decision ${decision} on ${profileId} rejected: ${reason}`);
+
+    // Only this profile is reverted: a couple's partner was decided, and answered, on its own.
+    if (
+      (decision === "like" && likes.includes(profileId)) ||
+      (decision === "dislike" && dislikes.includes(profileId))
+    ) {
+      revertDecision(profileId);
+    }
+  });
+  reconciling = false;
+};
+
+/**
+ * Zustand store for the decision outbox, persisted like the user store so queued
+ * decisions survive restarts.
+ */
+export const useOutboxStore = create<OutboxStoreState>()(
+  persist(
+    (set, get) => ({
+      api: createDecisionApi(),
+      entries: [],
+      rejected: [],
+      isSyncing: false,
+      failures: 0,
+      hasHydrated: false,
+
+      // Queue a decision and send it shortly, with any others made meanwhile
+      enqueue: (profileId: string, decision: DecisionPayload["decision"]) => {
+        set((state: OutboxStoreState) => ({
+          entries: [
+            ...state.entries.filter(
+              (entry: OutboxEntry) =>
+                entry.profileId !== profileId || inFlight.has(entry.key),
+            ),
+            {
+              key: createId(),
+              profileId,
+              decision,
+              timestamp: Date.now(),
+              attempts: 0,
+            },
+          ],
+        }));
+
+        if (!get().failures) {
+          scheduleFlush(OUTBOX_FLUSH_DELAY);
+        }
+      },
+
+      // Send batches until the queue is empty or a send fails, then back off
+      flush: async () => {
+        if (get().isSyncing || !get().hasHydrated) {
+          return;
+        }
+
+        set({ isSyncing: true });
+
+        while (get().entries.length) {
+          const batch = get().entries.slice(0, OUTBOX_BATCH_SIZE);
+          inFlight = new Set(batch.map(({ key }: OutboxEntry) => key));
+
+          try {
+            const { accepted, rejected, matches } = await get().api.send(
+              batch.map(({ attempts: _attempts, ...payload }) => payload),
+            );
+
+            const reasons = new Map(
+              rejected.map(({ key, reason }: RejectedPayload) => [key, reason]),
+            );
+            const settled = new Set([...accepted, ...reasons.keys()]);
+
+            // Keys the server didn't answer for are retried after a backoff, like a failed send.
+            if (!settled.size) {
+              throw new ApiError(
+                "server",
+                "No decision in the batch was answered",
+              );
+            }
+
+            const refused = batch
+              .filter(({ key }: OutboxEntry) => reasons.has(key))
+              .map(({ attempts: _attempts, ...payload }) => ({
+                ...payload,
+                reason: reasons.get(payload.key) as string,
+              }));
+
+            set((state: OutboxStoreState) => ({
+              entries: state.entries.filter(
+                ({ key }: OutboxEntry) => !settled.has(key),
+              ),
+              rejected: [...state.rejected, ...refused].slice(
+                -OUTBOX_REJECTED_LIMIT,
+              ),
+              failures: 0,
+            }));
+            revertRejected(refused);
+            // Likes withdrawn meanwhile don't match; their "clear" is already queued.
+            useMatchesStore
+              .getState()
+              .addMatches(
+                matches.filter((id: string) =>
+                  useUserStore.getState().likes.includes(id),
+                ),
+              );
+          } catch (error: unknown) {
+            const failures = get().failures + 1;
+            console.warn(
+              `Decision sync failed (${failures} in a row):`,
+              toApiError(error),
+            );
+
+            set((state: OutboxStoreState) => ({
+              entries: state.entries.map((entry: OutboxEntry) =>
+                inFlight.has(entry.key)
+                  ? { ...entry, attempts: entry.attempts + 1 }
+                  : entry,
+              ),
+              failures,
+            }));
+            scheduleFlush(backoffDelay(failures - 1, OUTBOX_BACKOFF));
+            break;
+          } finally {
+            inFlight = new Set();
+          }
+        }
+
+        set({ isSyncing: false });
+      },
+
+      // Swap the decision API
+      setApi: (api: DecisionApi) => set({ api }),
+    }),
+    {
+      name: "smoche-outbox",
+      version: OUTBOX_STORE_VERSION,
+      storage: persistStorage,
+      partialize: (state) => ({
+        entries: state.entries,
+        rejected: state.rejected,
+      }),
+      // Hydration is started explicitly by the root layout, before the splash screen hides.
+      skipHydration: true,
+      onRehydrateStorage: () => () => {
+        useOutboxStore.setState({ hasHydrated: true });
+      },
+    },
+  ),
+);
+
+/**
+ * Starts syncing decisions: every like, dislike or cleared decision in the user store is
+ * queued, and the queue is sent now, when the app comes back to the foreground, and when
+ * the device goes back online. Withdrawing a like also ends its match.
+ * Call once the user, outbox and matches stores have hydrated.
+ *
+ * @returns A function that stops syncing.
+ */
+export const startDecisionSync = (): (() => void) => {
+  const { enqueue, flush } = useOutboxStore.getState();
+
+  const unsubscribe = useUserStore.subscribe((state, previous) => {
+    if (reconciling || !previous.hasHydrated) {
+      return;
+    }
+
+    state.likes
+      .filter((id: string) => !previous.likes.includes(id))
+      .forEach((id: string) => enqueue(id, "like"));
+    state.dislikes
+      .filter((id: string) => !previous.dislikes.includes(id))
+      .forEach((id: string) => enqueue(id, "dislike"));
+    [...previous.likes, ...previous.dislikes]
+      .filter(
+        (id: string) =>
+          !state.likes.includes(id) && !state.dislikes.includes(id),
+      )
+      .forEach((id: string) => enqueue(id, "clear"));
+    previous.likes
+      .filter((id: string) => !state.likes.includes(id))
+      .forEach((id: string) => useMatchesStore.getState().removeMatch(id));
+  });
+
+  // Retry straight away when connectivity may have come back, skipping any backoff.
+  const retryNow = () => {
+    useOutboxStore.setState({ failures: 0 });
+    useOutboxStore.getState().flush();
+  };
+
+  const appState = AppState.addEventListener("change", (status) => {
+    if (status === "active") {
+      retryNow();
+    }
+  });
+  // NetInfo reports the current state when subscribing, so only a change to connected counts.
+  let connected: boolean | null = null;
+  const stopNetInfo = NetInfo.addEventListener(
+    ({ isConnected }: NetInfoState) => {
+      if (isConnected && connected === false) {
+        retryNow();
+      }
+      connected = isConnected;
+    },
+  );
+
+  flush();
+
+  return () => {
+    unsubscribe();
+    appState.remove();
+    stopNetInfo();
+  };
+};
@@ -0,0 +1,162 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import {
+  DEFAULT_PREFERENCES,
+  PREFERENCES_MAX_AGE,
+  PREFERENCES_MIN_AGE,
+} from "@/constants/Preferences";
+import { persistStorage } from "./storage";
+
+/**
+ * Discovery preferences, each matched against a field of `ProfileInfo`.
+ * An empty list means any value is accepted.
+ */
+export interface DiscoveryPreferences {
+  // Youngest age shown, inclusive.
+  minAge: number;
+  // Oldest age shown, inclusive.
+  maxAge: number;
+  // Accepted values of `ProfileInfo.gender`.
+  genders: string[];
+  // Accepted values of `ProfileInfo.sexuality`.
+  sexualities: string[];
+  // Accepted values of `ProfileInfo.type`, e.g. "single".
+  types: string[];
+  // Desires a profile must list, all of them.
+  desires: string[];
+}
+
+/**
+ * How the feed is ordered: by compatibility score, or in the random order profiles arrive in.
+ */
+export type FeedOrdering = "best" | "random";
+
+/**
+ * The list fields of `DiscoveryPreferences`, toggled one value at a time.
+ */
+export type PreferenceListField = keyof Omit<
+  DiscoveryPreferences,
+  "minAge" | "maxAge"
+>;
+
+/**
+ * Type definition for the preferences store state.
+ */
+interface PreferencesStoreState {
+  // The current discovery preferences
+  preferences: DiscoveryPreferences;
+  // How the feed is ordered
+  ordering: FeedOrdering;
+  // True once the saved preferences have been loaded back from storage
+  hasHydrated: boolean;
+
+  // Actions
+  setAgeRange: (minAge: number, maxAge: number) => void;
+  togglePreference: (field: PreferenceListField, value: string) => void;
+  resetPreferences: () => void;
+  setOrdering: (ordering: FeedOrdering) => void;
+}
+
+/**
+ * Current schema version of the persisted preferences store.
+ */
+export const PREFERENCES_STORE_VERSION = 2;
+
+// Oldest age the age range could be set to before version 2.
+const LEGACY_MAX_AGE = 99;
+
+/**
+ * Upgrades persisted state from `version` to `PREFERENCES_STORE_VERSION`.
+ *
+ * @param persistedState - The state read from storage.
+ * @param version - The schema version the state was saved with.
+ * @returns The state in the current schema.
+ */
+export const migratePreferencesStore = (
+  persistedState: unknown,
+  version: number,
+): Partial<PreferencesStoreState> => {
+  const state = (persistedState ?? {}) as Partial<PreferencesStoreState>;
+
+  // Version 2 raises the oldest age to the oldest valid profile age; a range that reached the
+  // old limit was open-ended and stays that way.
+  if (version < 2 && state.preferences?.maxAge === LEGACY_MAX_AGE) {
+    return {
+      ...state,
+      preferences: { ...state.preferences, maxAge: PREFERENCES_MAX_AGE },
+    };
+  }
+  return state;
+};
+
+// Keeps an age within the supported range.
+const clampAge = (age: number): number =>
+  Math.min(PREFERENCES_MAX_AGE, Math.max(PREFERENCES_MIN_AGE, Math.round(age)));
+
+/**
+ * Zustand store for discovery preferences, persisted like the user store.
+ */
+export const usePreferencesStore = create<PreferencesStoreState>()(
+  persist(
+    (set) => ({
+      preferences: DEFAULT_PREFERENCES,
+      ordering: "best",
+      hasHydrated: false,
+
+      // Set the age range, swapping the bounds if they cross
+      setAgeRange: (minAge: number, maxAge: number) =>
+        set((state: PreferencesStoreState) => ({
+          preferences: {
+            ...state.preferences,
+            minAge: clampAge(Math.min(minAge, maxAge)),
+            maxAge: clampAge(Math.max(minAge, maxAge)),
+          },
+        })),
+
+      // Add a value to a list preference, or remove it if already selected
+      togglePreference: (field: PreferenceListField, value: string) =>
+        set((state: PreferencesStoreState) => {
+          const values = state.preferences[field];
+
+          return {
+            preferences: {
+              ...state.preferences,
+              [field]: values.includes(value)
+                ? values.filter((selected: string) => selected !== value)
+                : [...values, value],
+            },
+          };
+        }),
+
+      // Go back to showing everyone
+      resetPreferences: () => set({ preferences: DEFAULT_PREFERENCES }),
+
+      // Switch between best match and random ordering
+      setOrdering: (ordering: FeedOrdering) => set({ ordering }),
+    }),
+    {
+      name: "smoche-preferences",
+      version: PREFERENCES_STORE_VERSION,
+      storage: persistStorage,
+      migrate: migratePreferencesStore,
+      partialize: (state) => ({
+        preferences: state.preferences,
+        ordering: state.ordering,
+      }),
+      // Fill in preferences added after the state was saved.
+      merge: (persisted, current) => ({
+        ...current,
+        ...(persisted as Partial<PreferencesStoreState>),
+        preferences: {
+          ...DEFAULT_PREFERENCES,
+          ...(persisted as Partial<PreferencesStoreState>)?.preferences,
+        },
+      }),
+      // Hydration is started explicitly by the root layout, before the splash screen hides.
+      skipHydration: true,
+      onRehydrateStorage: () => () => {
+        usePreferencesStore.setState({ hasHydrated: true });
+      },
+    },
+  ),
+);
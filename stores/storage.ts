@@ -0,0 +1,40 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Platform } from "react-native";
+import { createJSONStorage, StateStorage } from "zustand/middleware";
+
+/**
+ * In-memory fallback used while rendering on the server (static web output),
+ * where neither `localStorage` nor AsyncStorage are available.
+ */
+const memoryStorage = (): StateStorage => {
+  const items = new Map<string, string>();
+
+  return {
+    getItem: (name: string) => items.get(name) ?? null,
+    setItem: (name: string, value: string) => {
+      items.set(name, value);
+    },
+    removeItem: (name: string) => {
+      items.delete(name);
+    },
+  };
+};
+
+/**
+ * Resolves the key/value storage for the current platform.
+ * Web persists to `localStorage`, native persists to device storage through AsyncStorage.
+ */
+const getDeviceStorage = (): StateStorage => {
+  if (Platform.OS !== "web") {
+    return AsyncStorage;
+  }
+
+  return typeof window !== "undefined" && window.localStorage
+    ? window.localStorage
+    : memoryStorage();
+};
+
+/**
+ * JSON storage shared by every persisted Zustand store in the app.
+ */
+export const persistStorage = createJSONStorage(getDeviceStorage);
@@ -1,7 +1,20 @@
 import { create } from "zustand";
-import TmpProfiles from "./profiles.json";
-import axios from "axios";
-import { SESSION_TOKEN } from "@env";
+import { createProfileSource, ProfileSource } from "@/services/profileSource";
+import { ApiErrorCategory, toApiError } from "@/services/apiClient";
+import {
+  EMPTY_VALIDATION_STATS,
+  validateProfile,
+  validateProfiles,
+  ValidationStats,
+} from "@/utils/profileValidation";
+import { useUserStore } from "./userStore";
+
+// Number of distinct users the backend draws its random batches from.
+export const PROFILE_POOL_SIZE = 100;
+
+// Consecutive batches with nothing new after which the pool is treated as exhausted.
+// The pool contains duplicate IDs, so the distinct count may never reach PROFILE_POOL_SIZE.
+const EXHAUSTED_AFTER_EMPTY_BATCHES = 3;
 
 /**
  * Represents a photo object in a user's profile.
@@ -10,10 +23,10 @@ import { SESSION_TOKEN } from "@env";
 export interface Photo {
   // The URL of the photo.
   url: string;
-  // The width of the photo in pixels.
-  width: number;
-  // The height of the photo in pixels.
-  height: number;
+  // The width of the photo in pixels, missing for some records.
+  width?: number;
+  // The height of the photo in pixels, missing for some records.
+  height?: number;
 }
 
 /**
@@ -59,63 +72,328 @@ export interface Profile {
 }
 
 export interface ProfileStoreState {
+  // Where profiles are loaded from, selected by `PROFILE_SOURCE`
+  source: ProfileSource;
   // Array of profiles
   profiles: Profile[];
   // Loading state for fetching profiles
   isLoading: boolean;
+  // Loading state for fetching further batches
+  isFetchingMore: boolean;
+  // Loading state for pull-to-refresh
+  isRefreshing: boolean;
+  // False once the backend pool has been exhausted
+  hasMore: boolean;
+  // Number of consecutive batches that contained no new profiles
+  emptyBatches: number;
+  // Profiles fetched on their own because they weren't in a batch, e.g. partners of couples
+  // or deep-linked profiles, keyed by ID.
+  // Null marks a profile that couldn't be loaded, so it isn't requested again.
+  fetchedProfiles: Record<string, Profile | null>;
+  // Totals of records accepted, repaired and dropped by validation
+  validation: ValidationStats;
+  // Number of times each photo URL failed to load, for diagnostics
+  photoFailures: Record<string, number>;
   // Error message (if any)
   error: string | null;
+  // Category of the last error, so the UI can react to auth, network, server and parse failures differently
+  errorCategory: ApiErrorCategory | null;
   // Function to fetch profiles
   fetchProfiles: () => Promise<void>;
+  // Function to fetch the next batch and append it to the loaded profiles
+  fetchMoreProfiles: () => Promise<void>;
+  // Function to fetch a new batch on pull-to-refresh, keeping loaded profiles and decisions
+  refreshProfiles: () => Promise<void>;
+  // Function to load a single profile that isn't among the loaded profiles, e.g. a partner
+  fetchProfileById: (id: string) => Promise<void>;
+  // Function to cancel in-flight requests, e.g. when the feed unmounts
+  cancelFetches: () => void;
+  // Function to swap the profile source, e.g. for the offline fixture in tests
+  setSource: (source: ProfileSource) => void;
   // Function to set profiles list
   setProfiles: (profiles: Profile[]) => void;
+  // Function to put profiles back at the top of the feed, e.g. once their decision is cleared
+  restoreProfiles: (profiles: Profile[]) => void;
   // Function to update a single profile
   updateProfile: (id: string, update: Partial<Profile>) => void;
+  // Function to count a photo that failed to load
+  reportPhotoFailure: (url: string) => void;
 }
 
-export const useProfileStore = create<ProfileStoreState>((set) => ({
-  profiles: [], // [...TmpProfiles.data as Profile[]],
+/**
+ * Requests a single random batch of profiles from the given source and validates it.
+ * Invalid records are repaired or dropped, and the outcome is recorded in the store's
+ * validation stats so one bad profile can't break the feed.
+ * Some of the profiles returned have duplicate IDs on the profile. IDs should always be
+ * unique in a dataset. Some housekeeping is needed in the profile DB. This will
+ * extract profiles and filter duplicates.
+ */
+const requestBatch = async (
+  source: ProfileSource,
+  signal: AbortSignal,
+): Promise<Profile[]> => {
+  const batch = await source.fetchBatch(signal);
+  const { profiles, issues, stats } = validateProfiles(
+    batch,
+    useProfileStore.getState().validation,
+  );
+
+  issues.forEach(({ id, index, action, reasons }) =>
+    console.warn(
+      `Profile ${id ?? `at index ${index}`} ${action}: ${reasons.join(", ")}`,
+    ),
+  );
+  useProfileStore.setState({ validation: stats });
+
+  return Array.from(
+    new Map(profiles.map((profile) => [profile.id, profile])).values(),
+  );
+};
+
+/**
+ * Splits out the profiles of a batch that are neither loaded nor decided yet.
+ *
+ * @returns The new profiles, and how many distinct profiles are known once they are added.
+ */
+const collectNew = (
+  batch: Profile[],
+  profiles: Profile[],
+): { newProfiles: Profile[]; knownCount: number } => {
+  const { likes, dislikes } = useUserStore.getState();
+  const knownIds = new Set([
+    ...profiles.map((profile: Profile) => profile.id),
+    ...likes,
+    ...dislikes,
+  ]);
+  const newProfiles = batch.filter(
+    (profile: Profile) => !knownIds.has(profile.id),
+  );
+
+  return { newProfiles, knownCount: knownIds.size + newProfiles.length };
+};
+
+// IDs of single profiles being fetched, so each is requested only once at a time.
+const pendingProfiles = new Set<string>();
+
+// Controller of the request in flight, aborted when a newer fetch starts or on `cancelFetches`.
+let activeRequest: AbortController | null = null;
+
+// Aborts the request in flight, if any, and starts tracking a new one.
+const startRequest = (): AbortController => {
+  activeRequest?.abort();
+  activeRequest = new AbortController();
+  return activeRequest;
+};
+
+export const useProfileStore = create<ProfileStoreState>((set, get) => ({
+  source: createProfileSource(),
+  profiles: [],
   isLoading: false,
+  isFetchingMore: false,
+  isRefreshing: false,
+  hasMore: true,
+  emptyBatches: 0,
+  fetchedProfiles: {},
+  validation: EMPTY_VALIDATION_STATS,
+  photoFailures: {},
   error: null,
+  errorCategory: null,
 
-  // Fetch profiles from the API
+  // Fetch profiles from the API, replacing any request already in flight
   fetchProfiles: async () => {
-    set({ isLoading: true, error: null }); // Set loading state
+    const controller = startRequest();
+    // Set loading state
+    set({
+      isLoading: true,
+      isFetchingMore: false,
+      isRefreshing: false,
+      error: null,
+      errorCategory: null,
+    });
 
     try {
-      // Make API request to fetch profiles
-      const response = await axios.get<{
-        data: Profile[];
-        status: number;
-      }>("https://fld-devtest-api.herokuapp.com/api/v1/users", {
-        headers: {
-          "session-token": SESSION_TOKEN,
-        },
+      const uniqueProfiles = await requestBatch(
+        get().source,
+        controller.signal,
+      );
+
+      // Update profiles and reset error and pagination state
+      set({
+        profiles: uniqueProfiles,
+        isLoading: false,
+        hasMore: uniqueProfiles.length < PROFILE_POOL_SIZE,
+        emptyBatches: 0,
       });
+    } catch (error: unknown) {
+      const apiError = toApiError(error);
 
-      // Some of the profiles returned have duplicate IDs on the profile. IDs should always be
-      // unique in a dataset. Some housekeeping is needed in the profile DB. This will
-      // extract profiles and filter duplicates.
-      const uniqueProfiles = Array.from(
-        new Map(
-          response.data.data.map((profile) => [profile.id, profile]),
-        ).values(),
-      );
+      // A cancelled request was superseded or abandoned; the newer request owns the state.
+      if (apiError.category === "cancelled") {
+        return;
+      }
 
-      // Update profiles and reset error state
-      set({ profiles: uniqueProfiles, isLoading: false });
-    } catch (error: any) {
       // Handle errors and update state
       set({
-        error: error.response?.data?.message || "Failed to fetch profiles",
+        error: apiError.message || "Failed to fetch profiles",
+        errorCategory: apiError.category,
         isLoading: false,
       });
     }
   },
 
+  // Fetch another batch and append the profiles that are neither loaded nor decided yet.
+  // Waits for a load or refresh in flight, which it would otherwise abort.
+  fetchMoreProfiles: async () => {
+    const { isLoading, isFetchingMore, isRefreshing, hasMore } = get();
+    if (isLoading || isFetchingMore || isRefreshing || !hasMore) {
+      return;
+    }
+
+    const controller = startRequest();
+    set({ isFetchingMore: true, error: null, errorCategory: null });
+
+    try {
+      const batch = await requestBatch(get().source, controller.signal);
+      const { profiles, emptyBatches } = get();
+      const { newProfiles, knownCount } = collectNew(batch, profiles);
+      const nextEmptyBatches = newProfiles.length ? 0 : emptyBatches + 1;
+
+      set({
+        profiles: [...profiles, ...newProfiles],
+        isFetchingMore: false,
+        emptyBatches: nextEmptyBatches,
+        hasMore:
+          knownCount < PROFILE_POOL_SIZE &&
+          nextEmptyBatches < EXHAUSTED_AFTER_EMPTY_BATCHES,
+      });
+    } catch (error: unknown) {
+      const apiError = toApiError(error);
+
+      if (apiError.category === "cancelled") {
+        return;
+      }
+
+      set({
+        error: apiError.message || "Failed to fetch profiles",
+        errorCategory: apiError.category,
+        isFetchingMore: false,
+      });
+    }
+  },
+
+  // Fetch a new batch and put unseen profiles at the top, keeping what is already loaded.
+  // Waits for the first load, which it would otherwise abort and leave loading for good.
+  refreshProfiles: async () => {
+    if (get().isLoading) {
+      return;
+    }
+
+    const controller = startRequest();
+    set({
+      isRefreshing: true,
+      isFetchingMore: false,
+      error: null,
+      errorCategory: null,
+    });
+
+    try {
+      const batch = await requestBatch(get().source, controller.signal);
+      const { profiles } = get();
+      const { newProfiles, knownCount } = collectNew(batch, profiles);
+
+      set({
+        profiles: [...newProfiles, ...profiles],
+        isRefreshing: false,
+        emptyBatches: 0,
+        hasMore: knownCount < PROFILE_POOL_SIZE,
+      });
+    } catch (error: unknown) {
+      const apiError = toApiError(error);
+
+      if (apiError.category === "cancelled") {
+        return;
+      }
+
+      set({
+        error: apiError.message || "Failed to fetch profiles",
+        errorCategory: apiError.category,
+        isRefreshing: false,
+      });
+    }
+  },
+
+  // Fetch a single profile through the data source, independently of the feed requests.
+  // Sources without single-profile lookups mark it unavailable until a batch brings it in.
+  fetchProfileById: async (id: string) => {
+    const { profiles, fetchedProfiles, source } = get();
+    if (
+      pendingProfiles.has(id) ||
+      id in fetchedProfiles ||
+      profiles.some((profile: Profile) => profile.id === id)
+    ) {
+      return;
+    }
+
+    if (!source.fetchProfile) {
+      set((state) => ({
+        fetchedProfiles: { ...state.fetchedProfiles, [id]: null },
+      }));
+      return;
+    }
+
+    pendingProfiles.add(id);
+
+    try {
+      const { profile, reasons } = validateProfile(
+        await source.fetchProfile(id),
+      );
+      if (reasons.length) {
+        console.warn(
+          `Profile ${id} ${profile ? "repaired" : "dropped"}: ${reasons.join(", ")}`,
+        );
+      }
+
+      set((state) => ({
+        fetchedProfiles: { ...state.fetchedProfiles, [id]: profile },
+      }));
+    } catch (error: unknown) {
+      console.warn(`Profile ${id} could not be loaded:`, toApiError(error));
+      set((state) => ({
+        fetchedProfiles: { ...state.fetchedProfiles, [id]: null },
+      }));
+    } finally {
+      pendingProfiles.delete(id);
+    }
+  },
+
+  // Abort the request in flight and clear the loading flags it set
+  cancelFetches: () => {
+    activeRequest?.abort();
+    activeRequest = null;
+    set({ isLoading: false, isFetchingMore: false, isRefreshing: false });
+  },
+
+  // Swap the profile source
+  setSource: (source: ProfileSource) => set(() => ({ source })),
+
   // Set profiles explicitly
   setProfiles: (profiles: Profile[]) => set(() => ({ profiles })),
 
+  // Prepend profiles that aren't loaded any more
+  restoreProfiles: (restored: Profile[]) =>
+    set((state) => {
+      const loadedIds = new Set(
+        state.profiles.map((profile: Profile) => profile.id),
+      );
+
+      return {
+        profiles: [
+          ...restored.filter((profile: Profile) => !loadedIds.has(profile.id)),
+          ...state.profiles,
+        ],
+      };
+    }),
+
   // Update a profile by its ID (e.g., mark it as liked or disliked)
   updateProfile: (id: string, update: Partial<Profile>) =>
     set((state) => ({
@@ -123,4 +401,15 @@ export const useProfileStore = create<ProfileStoreState>((set) => ({
         profile.id === id ? { ...profile, ...update } : profile,
       ),
     })),
+
+  // Count a photo that failed to load, warning like validation issues
+  reportPhotoFailure: (url: string) => {
+    console.warn(`Photo failed to load: ${url}`);
+    set((state) => ({
+      photoFailures: {
+        ...state.photoFailures,
+        [url]: (state.photoFailures[url] ?? 0) + 1,
+      },
+    }));
+  },
 }));
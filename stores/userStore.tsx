@@ -1,63 +1,462 @@
 import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { persistStorage } from "./storage";
+import type { Photo, Profile, ProfileInfo } from "./useProfileStore";
+
+/**
+ * The kinds of decision a user can make on a profile.
+ */
+export type DecisionType = "like" | "dislike" | "skip";
+
+/**
+ * A single entry in the decision history.
+ */
+export interface Decision {
+  // The ID of the decided profile.
+  profileId: string;
+  // What the user decided.
+  decision: DecisionType;
+  // When the decision was made, in milliseconds since the epoch.
+  timestamp: number;
+  // The partner's profile ID when the decision was made on a couple, which covers both.
+  partnerId?: string;
+}
+
+/**
+ * The current user's own profile, in the same shape other users' profiles are shown in.
+ */
+export interface OwnProfile {
+  // Personal information and tags, as shown on the user's card.
+  info: ProfileInfo;
+  // The user's photos.
+  photos: Photo[];
+}
+
+/**
+ * Own profile of a user who hasn't filled theirs in yet.
+ */
+export const EMPTY_OWN_PROFILE: OwnProfile = {
+  info: {
+    age: 18,
+    type: "single",
+    gender: "",
+    sexuality: "",
+    name: "",
+    about: "",
+    desires: [],
+    interests: [],
+  },
+  photos: [],
+};
+
+/**
+ * Maximum number of decisions kept for undo.
+ */
+export const DECISION_HISTORY_LIMIT = 50;
 
 /**
  * Type definition for the user store state.
  */
 interface UserStoreState {
-  // User details, can be expanded to a specific type later
-  user: Record<string, any>;
+  // The current user's own profile
+  user: OwnProfile;
   // Array of profile IDs liked by the user
   likes: string[];
   // Array of profile IDs disliked by the user
   dislikes: string[];
+  // Array of profile IDs skipped by the user, oldest skip first
+  skipped: string[];
+  // Ordered log of decisions, oldest first, bounded to `DECISION_HISTORY_LIMIT`
+  history: Decision[];
+  // Copies of liked and disliked profiles keyed by ID, so they can be reviewed once out of the feed
+  decidedProfiles: Record<string, Profile>;
+  // True once the saved state has been loaded back from storage
+  hasHydrated: boolean;
 
   // Actions
-  addLike: (id: string) => void;
+  updateUser: (update: Partial<OwnProfile>) => void;
+  addLike: (id: string, partnerId?: string) => void;
   removeLike: (id: string) => void;
-  addDislike: (id: string) => void;
+  addDislike: (id: string, partnerId?: string) => void;
   removeDislike: (id: string) => void;
+  revertDecision: (id: string) => void;
+  addSkip: (id: string, partnerId?: string) => void;
+  removeSkip: (id: string) => void;
+  rememberProfiles: (profiles: Profile[]) => void;
+  undo: () => Decision | undefined;
 }
 
 /**
- * Zustand store for user-related state
+ * The subset of the user store that is written to storage.
  */
-export const useUserStore = create<UserStoreState>((set) => ({
-  // Placeholder for user details
-  user: {},
-  // Array of profile IDs liked by the user
-  likes: [],
-  // Array of profile IDs disliked by the user
-  dislikes: [],
-
-  // Add a profile ID to the likes array
-  addLike: (id: string) =>
-    set((state: UserStoreState) => ({
-      likes: state.likes.includes(id) ? state.likes : [...state.likes, id],
-
-      // Remove from dislikes if present
-      dislikes: state.dislikes.filter((dislikeId: string) => dislikeId !== id),
-    })),
-
-  // Remove a profile ID from the likes array
-  removeLike: (id: string) =>
-    set((state: UserStoreState) => ({
-      likes: state.likes.filter((likeId: string) => likeId !== id),
-    })),
-
-  // Add a profile ID to the dislikes array
-  addDislike: (id: string) =>
-    set((state: UserStoreState) => ({
-      dislikes: state.dislikes.includes(id)
-        ? state.dislikes
-        : [...state.dislikes, id],
-
-      // Remove from likes if present
-      likes: state.likes.filter((likeId: string) => likeId !== id),
-    })),
-
-  // Remove a profile ID from the dislikes array
-  removeDislike: (id: string) =>
-    set((state: UserStoreState) => ({
-      dislikes: state.dislikes.filter((dislikeId: string) => dislikeId !== id),
-    })),
-}));
+export type PersistedUserState = Pick<
+  UserStoreState,
+  "user" | "likes" | "dislikes" | "skipped" | "history" | "decidedProfiles"
+>;
+
+/**
+ * Current schema version of the persisted user store.
+ * Bump this and add a matching entry to `migrations` whenever `PersistedUserState` changes.
+ */
+export const USER_STORE_VERSION = 6;
+
+// Keeps only string IDs from a persisted list, dropping anything malformed.
+const toIdList = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? Array.from(
+        new Set(value.filter((id): id is string => typeof id === "string")),
+      )
+    : [];
+
+// Reads a persisted object as a record of unknown fields; anything else reads as empty.
+const toRecord = (value: unknown): Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+
+// Builds an own profile from a persisted user record, keeping only fields of the right type.
+// Early saves kept the details at the top level rather than under `info`.
+const toOwnProfile = (value: unknown): OwnProfile => {
+  const record = toRecord(value);
+  const source = toRecord(record.info ?? value);
+  const info = Object.fromEntries(
+    Object.entries(EMPTY_OWN_PROFILE.info).map(([field, fallback]) => {
+      const saved = source[field];
+      const valid = Array.isArray(fallback)
+        ? Array.isArray(saved) &&
+          saved.every((tag: unknown) => typeof tag === "string")
+        : typeof saved === typeof fallback;
+
+      return [field, valid ? saved : fallback];
+    }),
+  ) as unknown as ProfileInfo;
+
+  return {
+    info,
+    photos: Array.isArray(record.photos)
+      ? record.photos.filter(
+          (photo: unknown): photo is Photo =>
+            typeof toRecord(photo).url === "string",
+        )
+      : [],
+  };
+};
+
+// Returns the copies of decided profiles that are still liked, disliked or skipped.
+const pruneDecidedProfiles = (
+  decidedProfiles: Record<string, Profile>,
+  {
+    likes,
+    dislikes,
+    skipped,
+  }: Pick<PersistedUserState, "likes" | "dislikes" | "skipped">,
+): Record<string, Profile> => {
+  const decided = new Set([...likes, ...dislikes, ...skipped]);
+  return Object.fromEntries(
+    Object.entries(decidedProfiles).filter(([id]) => decided.has(id)),
+  );
+};
+
+/**
+ * Migrations keyed by the version they upgrade to.
+ * Each one receives the state saved by the previous version.
+ */
+const migrations: Record<
+  number,
+  (state: Record<string, unknown>) => Record<string, unknown>
+> = {
+  // Version 1 is the first persisted schema; sanitise whatever was saved before it.
+  1: (state) => ({
+    user: toRecord(state.user),
+    likes: toIdList(state.likes),
+    dislikes: toIdList(state.dislikes),
+  }),
+  // Version 2 adds the decision history, which starts empty for existing saves.
+  2: (state) => ({ ...state, history: [] }),
+  // Version 3 adds skipped profiles, kept apart from dislikes.
+  3: (state) => ({ ...state, skipped: [] }),
+  // Version 4 types the user record as an own profile.
+  4: (state) => ({ ...state, user: toOwnProfile(state.user) }),
+  // Version 5 keeps copies of decided profiles; earlier decisions have none.
+  5: (state) => ({ ...state, decidedProfiles: {} }),
+  // Version 6 drops copies of profiles whose decision was cleared.
+  6: (state) => ({
+    ...state,
+    decidedProfiles: pruneDecidedProfiles(
+      toRecord(state.decidedProfiles) as Record<string, Profile>,
+      {
+        likes: toIdList(state.likes),
+        dislikes: toIdList(state.dislikes),
+        skipped: toIdList(state.skipped),
+      },
+    ),
+  }),
+};
+
+/**
+ * Upgrades persisted state from `version` to `USER_STORE_VERSION` one step at a time.
+ *
+ * @param persistedState - The state read from storage.
+ * @param version - The schema version the state was saved with.
+ * @returns The state in the current schema.
+ */
+export const migrateUserStore = (
+  persistedState: unknown,
+  version: number,
+): PersistedUserState => {
+  let state = toRecord(persistedState);
+
+  for (let next = version + 1; next <= USER_STORE_VERSION; next++) {
+    state = migrations[next] ? migrations[next](state) : state;
+  }
+
+  return state as unknown as PersistedUserState;
+};
+
+// Appends a decision to the history, dropping the oldest entries past the limit.
+const appendDecision = (
+  history: Decision[],
+  profileId: string,
+  decision: DecisionType,
+  partnerId?: string,
+): Decision[] =>
+  [
+    ...history,
+    {
+      profileId,
+      decision,
+      timestamp: Date.now(),
+      ...(partnerId && { partnerId }),
+    },
+  ].slice(-DECISION_HISTORY_LIMIT);
+
+// Returns the decision lists with `id` removed from all of them, then added to the one for `decision`.
+const applyDecision = (
+  state: Pick<UserStoreState, "likes" | "dislikes" | "skipped">,
+  id: string,
+  decision?: DecisionType,
+): Pick<UserStoreState, "likes" | "dislikes" | "skipped"> => {
+  const likes = state.likes.filter((likeId: string) => likeId !== id);
+  const dislikes = state.dislikes.filter(
+    (dislikeId: string) => dislikeId !== id,
+  );
+  const skipped = state.skipped.filter((skipId: string) => skipId !== id);
+
+  return {
+    likes: decision === "like" ? [...likes, id] : likes,
+    dislikes: decision === "dislike" ? [...dislikes, id] : dislikes,
+    skipped: decision === "skip" ? [...skipped, id] : skipped,
+  };
+};
+
+// Clears a like or dislike on a profile and, when it was decided as a couple, on the partner,
+// with their history entries, so undo can't bring the cleared decision back.
+const clearDecision = (
+  state: UserStoreState,
+  list: "likes" | "dislikes",
+  id: string,
+): Pick<
+  UserStoreState,
+  "likes" | "dislikes" | "history" | "decidedProfiles"
+> => {
+  const entry = [...state.history]
+    .reverse()
+    .find(
+      (decision: Decision) =>
+        decision.profileId === id || decision.partnerId === id,
+    );
+  const partnerId =
+    entry?.profileId === id
+      ? entry.partnerId
+      : (entry?.profileId ?? state.decidedProfiles[id]?.associated);
+  const ids = [id, partnerId].filter((entryId) => !!entryId);
+  const lists = {
+    likes: state.likes,
+    dislikes: state.dislikes,
+    skipped: state.skipped,
+    [list]: state[list].filter((listId: string) => !ids.includes(listId)),
+  };
+
+  return {
+    likes: lists.likes,
+    dislikes: lists.dislikes,
+    history: state.history.filter(
+      ({ profileId, partnerId }: Decision) =>
+        !ids.includes(profileId) && !(partnerId && ids.includes(partnerId)),
+    ),
+    decidedProfiles: pruneDecidedProfiles(state.decidedProfiles, lists),
+  };
+};
+
+// Applies a decision to a profile and, for a couple, to the partner too, and records it once.
+const decide = (
+  state: UserStoreState,
+  decision: DecisionType,
+  id: string,
+  partnerId?: string,
+): Pick<UserStoreState, "likes" | "dislikes" | "skipped" | "history"> => {
+  const lists = applyDecision(state, id, decision);
+
+  return {
+    ...(partnerId ? applyDecision(lists, partnerId, decision) : lists),
+    history: appendDecision(state.history, id, decision, partnerId),
+  };
+};
+
+/**
+ * Zustand store for user-related state, persisted to device storage on native
+ * and `localStorage` on web.
+ */
+export const useUserStore = create<UserStoreState>()(
+  persist(
+    (set, get) => ({
+      // The current user's own profile
+      user: EMPTY_OWN_PROFILE,
+      // Array of profile IDs liked by the user
+      likes: [],
+      // Array of profile IDs disliked by the user
+      dislikes: [],
+      // Array of profile IDs skipped by the user
+      skipped: [],
+      // Decision log used for undo
+      history: [],
+      // Copies of decided profiles for the history screen
+      decidedProfiles: {},
+      hasHydrated: false,
+
+      // Update the current user's own profile
+      updateUser: (update: Partial<OwnProfile>) =>
+        set((state: UserStoreState) => ({
+          user: { ...state.user, ...update },
+        })),
+
+      // Add a profile ID, and its partner's for a couple, to the likes array,
+      // removing them from dislikes and skips
+      addLike: (id: string, partnerId?: string) =>
+        set((state: UserStoreState) => decide(state, "like", id, partnerId)),
+
+      // Remove a profile ID, and its partner's for a couple, from the likes array
+      removeLike: (id: string) =>
+        set((state: UserStoreState) => clearDecision(state, "likes", id)),
+
+      // Add a profile ID, and its partner's for a couple, to the dislikes array,
+      // removing them from likes and skips
+      addDislike: (id: string, partnerId?: string) =>
+        set((state: UserStoreState) => decide(state, "dislike", id, partnerId)),
+
+      // Remove a profile ID, and its partner's for a couple, from the dislikes array
+      removeDislike: (id: string) =>
+        set((state: UserStoreState) => clearDecision(state, "dislikes", id)),
+
+      // Remove a single profile ID from the likes and dislikes arrays, leaving its partner's
+      // decision, e.g. when the server rejected the decision on this profile only
+      revertDecision: (id: string) =>
+        set((state: UserStoreState) => {
+          const lists = applyDecision(state, id);
+          return {
+            ...lists,
+            decidedProfiles: pruneDecidedProfiles(state.decidedProfiles, lists),
+          };
+        }),
+
+      // Move a profile ID, and its partner's for a couple, to the end of the skipped array,
+      // clearing any like or dislike
+      addSkip: (id: string, partnerId?: string) =>
+        set((state: UserStoreState) => decide(state, "skip", id, partnerId)),
+
+      // Remove a profile ID from the skipped array
+      removeSkip: (id: string) =>
+        set((state: UserStoreState) => {
+          const skipped = state.skipped.filter(
+            (skipId: string) => skipId !== id,
+          );
+          return {
+            skipped,
+            decidedProfiles: pruneDecidedProfiles(state.decidedProfiles, {
+              ...state,
+              skipped,
+            }),
+          };
+        }),
+
+      // Keep copies of profiles being decided on, replacing older copies
+      rememberProfiles: (profiles: Profile[]) =>
+        set((state: UserStoreState) => ({
+          decidedProfiles: {
+            ...state.decidedProfiles,
+            ...Object.fromEntries(
+              profiles.map((profile: Profile) => [profile.id, profile]),
+            ),
+          },
+        })),
+
+      // Revert the most recent decision, restoring any earlier decision on the same profile,
+      // and on the partner for a couple.
+      // Returns the undone entry so the caller can bring the profile back into view.
+      undo: () => {
+        const { history } = get();
+        const last = history[history.length - 1];
+
+        if (!last) {
+          return undefined;
+        }
+
+        const remaining = history.slice(0, -1);
+        const previousDecision = (id: string) =>
+          [...remaining]
+            .reverse()
+            .find(
+              (entry: Decision) =>
+                entry.profileId === id || entry.partnerId === id,
+            )?.decision;
+
+        set((state: UserStoreState) => {
+          const lists = applyDecision(
+            state,
+            last.profileId,
+            previousDecision(last.profileId),
+          );
+
+          const decided = last.partnerId
+            ? applyDecision(
+                lists,
+                last.partnerId,
+                previousDecision(last.partnerId),
+              )
+            : lists;
+
+          return {
+            ...decided,
+            history: remaining,
+            decidedProfiles: pruneDecidedProfiles(
+              state.decidedProfiles,
+              decided,
+            ),
+          };
+        });
+
+        return last;
+      },
+    }),
+    {
+      name: "smoche-user",
+      version: USER_STORE_VERSION,
+      storage: persistStorage,
+      partialize: (state): PersistedUserState => ({
+        user: state.user,
+        likes: state.likes,
+        dislikes: state.dislikes,
+        skipped: state.skipped,
+        history: state.history,
+        decidedProfiles: state.decidedProfiles,
+      }),
+      migrate: migrateUserStore,
+      // Hydration is started explicitly by the root layout, before the splash screen hides.
+      skipHydration: true,
+      // Flag hydration as finished even when reading storage failed, so the feed never waits forever.
+      onRehydrateStorage: () => () => {
+        useUserStore.setState({ hasHydrated: true });
+      },
+    },
+  ),
+);
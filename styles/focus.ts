@@ -0,0 +1,10 @@
+import { Platform, type ViewStyle } from "react-native";
+
+/**
+ * Hides the outline FontAwesome SVGs get on focus in web.
+ * `outline` only exists on web, so React Native's style types don't include it.
+ */
+export const noFocusOutline: ViewStyle = Platform.select({
+  web: { outline: "none" } as ViewStyle,
+  default: {},
+});
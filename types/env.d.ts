@@ -0,0 +1,15 @@
+/**
+ * Variables read from `.env` by react-native-dotenv.
+ */
+declare module "@env" {
+  // Session token sent to the profiles API.
+  export const SESSION_TOKEN: string;
+  // Where profiles come from: "http" (default) or "fixture".
+  export const PROFILE_SOURCE: string | undefined;
+  // Base URL of the profiles API, defaults to the hosted API.
+  export const API_URL: string | undefined;
+  // Where analytics events go: "console" (default) or "http", posted to `API_URL`.
+  export const ANALYTICS_SINK: string | undefined;
+  // Where decisions are synced: "local" (default, accepted on the device) or "http", posted to `API_URL`.
+  export const DECISION_SYNC: string | undefined;
+}
@@ -0,0 +1,7 @@
+/**
+ * `.jsonc` files are imported as raw text, see scripts/jsonc-transformer.js.
+ */
+declare module "*.jsonc" {
+  const text: string;
+  export default text;
+}
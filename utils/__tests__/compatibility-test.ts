@@ -0,0 +1,108 @@
+import { DEFAULT_PREFERENCES } from "@/constants/Preferences";
+import { type Profile } from "@/stores/useProfileStore";
+import {
+  rankNewProfiles,
+  rankProfiles,
+  scoreProfile,
+  sharedTags,
+} from "../compatibility";
+
+const profile = (
+  id: string,
+  desires: string[],
+  interests: string[] = [],
+): Profile => ({
+  id,
+  info: {
+    age: 58,
+    type: "single",
+    gender: "female",
+    sexuality: "straight",
+    name: "Kirra",
+    about: "",
+    desires,
+    interests,
+  },
+  associated: null,
+  photos: [],
+});
+
+const viewer = {
+  desires: ["Casual", "Friendship"],
+  interests: ["Art"],
+  preferences: DEFAULT_PREFERENCES,
+};
+
+describe("sharedTags", () => {
+  it(`matches tags regardless of case`, () => {
+    expect(sharedTags(["casual", "Relationship"], ["Casual"])).toEqual([
+      "casual",
+    ]);
+  });
+});
+
+describe("scoreProfile", () => {
+  it(`scores shared desires and interests by weight`, () => {
+    const weights = { desires: 1, interests: 1, preferences: 0 };
+
+    expect(
+      scoreProfile(profile("a", ["Casual"], ["Art"]), viewer, weights),
+    ).toBe(0.75);
+    expect(scoreProfile(profile("b", []), viewer, weights)).toBe(0);
+  });
+
+  it(`leaves age out until the age range is narrowed`, () => {
+    const newcomer = {
+      desires: [],
+      interests: [],
+      preferences: DEFAULT_PREFERENCES,
+    };
+
+    expect(scoreProfile(profile("a", []), newcomer)).toBe(0);
+    expect(
+      scoreProfile(profile("a", []), {
+        ...newcomer,
+        preferences: { ...DEFAULT_PREFERENCES, minAge: 48, maxAge: 68 },
+      }),
+    ).toBe(1);
+  });
+});
+
+describe("rankProfiles", () => {
+  it(`puts the best match first and keeps ties in order`, () => {
+    const ranked = rankProfiles(
+      [
+        profile("a", []),
+        profile("b", ["Casual", "Friendship"]),
+        profile("c", []),
+      ],
+      viewer,
+    );
+
+    expect(ranked.map(({ id }) => id)).toEqual(["b", "a", "c"]);
+  });
+});
+
+describe("rankNewProfiles", () => {
+  it(`ranks new profiles without moving the ones already ranked`, () => {
+    const ranked = rankNewProfiles(
+      [
+        profile("new-top", ["Casual"]),
+        profile("a", []),
+        profile("b", []),
+        profile("new-1", []),
+        profile("new-2", ["Casual", "Friendship"]),
+      ],
+      ["b", "a"],
+      viewer,
+    );
+
+    expect(ranked.map(({ id }) => id)).toEqual([
+      "new-top",
+      "b",
+      "a",
+      "new-2",
+      "new-1",
+    ]);
+  });
+});
@@ -0,0 +1,37 @@
+import { collapseCouples } from "../couples";
+
+const profile = (id: string, associated: string | null = null) => ({
+  id,
+  associated,
+});
+
+describe("collapseCouples", () => {
+  it(`keeps the first half of a couple and drops the second`, () => {
+    const profiles = [
+      profile("a"),
+      profile("b", "c"),
+      profile("d"),
+      profile("c", "b"),
+    ];
+
+    expect(collapseCouples(profiles).map(({ id }) => id)).toEqual([
+      "a",
+      "b",
+      "d",
+    ]);
+  });
+
+  it(`keeps the second half when the first was filtered out`, () => {
+    const profiles = [profile("b", "c"), profile("c", "b")];
+
+    expect(
+      collapseCouples(profiles.filter(({ id }) => id !== "b")).map(
+        ({ id }) => id,
+      ),
+    ).toEqual(["c"]);
+  });
+
+  it(`keeps a couple profile whose partner isn't loaded`, () => {
+    expect(collapseCouples([profile("b", "c")])).toHaveLength(1);
+  });
+});
@@ -0,0 +1,49 @@
+import { type Decision } from "@/stores/userStore";
+import { orderFeed } from "../feed";
+
+const profiles = ["a", "b", "c", "d", "e"].map((id) => ({ id }));
+
+const decision = (profileId: string, kind: Decision["decision"]): Decision => ({
+  profileId,
+  decision: kind,
+  timestamp: 0,
+});
+
+const ids = (list: { id: string }[]) => list.map(({ id }) => id);
+
+describe("orderFeed", () => {
+  it(`moves skipped profiles to the end of the feed`, () => {
+    const ordered = orderFeed(
+      profiles,
+      ["b", "a"],
+      [decision("b", "skip"), decision("a", "skip")],
+      null,
+    );
+
+    expect(ids(ordered)).toEqual(["c", "d", "e", "b", "a"]);
+  });
+
+  it(`brings a skipped profile back after the configured number of others`, () => {
+    const history = [decision("a", "skip")];
+
+    expect(ids(orderFeed(profiles, ["a"], history, 2))).toEqual([
+      "b",
+      "c",
+      "a",
+      "d",
+      "e",
+    ]);
+
+    // Deciding on other profiles moves it closer to the top.
+    expect(
+      ids(
+        orderFeed(
+          profiles.filter(({ id }) => id !== "b" && id !== "c"),
+          ["a"],
+          [...history, decision("b", "like"), decision("c", "dislike")],
+          2,
+        ),
+      ),
+    ).toEqual(["a", "d", "e"]);
+  });
+});
@@ -0,0 +1,71 @@
+import { ICEBREAKER_WEIGHTS } from "@/constants/Icebreakers";
+import { type Profile } from "@/stores/useProfileStore";
+import { suggestIcebreakers, tagKey } from "../icebreakers";
+
+const profile = (
+  interests: string[],
+  desires: string[] = [],
+  about = "",
+): Profile => ({
+  id: "7",
+  info: {
+    age: 31,
+    type: "single",
+    gender: "female",
+    sexuality: "straight",
+    name: "Kirra",
+    about,
+    desires,
+    interests,
+  },
+  associated: null,
+  photos: [],
+});
+
+describe("tagKey", () => {
+  it(`maps aliases and case to the template key`, () => {
+    expect(tagKey(" Muziek ")).toBe("music");
+    expect(tagKey("Kyacking")).toBe("kayaking");
+    expect(tagKey("Origami")).toBe("origami");
+  });
+});
+
+describe("suggestIcebreakers", () => {
+  it(`ranks lines about shared tags first`, () => {
+    const suggestions = suggestIcebreakers(
+      { interests: ["music", "Origami"], desires: [] },
+      profile(["Climbing", "Muziek", "origami"]),
+    );
+
+    expect(suggestions.map(({ score }) => score)).toEqual([
+      ICEBREAKER_WEIGHTS.sharedPair,
+      ICEBREAKER_WEIGHTS.sharedKnown,
+      ICEBREAKER_WEIGHTS.shared,
+    ]);
+    expect(suggestions[0].tags).toEqual(["Muziek", "origami"]);
+    expect(suggestions[2].text).toContain("origami");
+  });
+
+  it(`falls back to the bio and a greeting, skipping unknown tags`, () => {
+    const suggestions = suggestIcebreakers(
+      { interests: [], desires: [] },
+      profile(["...", "Origami"], [], "Loves long walks. Hates rain."),
+    );
+
+    expect(suggestions.map(({ score }) => score)).toEqual([
+      ICEBREAKER_WEIGHTS.about,
+      ICEBREAKER_WEIGHTS.fallback,
+    ]);
+    expect(suggestions[0].text).toContain('"Loves long walks"');
+    expect(suggestions[1].text).toContain("Kirra");
+  });
+
+  it(`picks the same lines for the same profile`, () => {
+    const viewer = { interests: ["Art"], desires: ["Casual"] };
+    const other = profile(["Art", "Reading"], ["Casual"]);
+
+    expect(suggestIcebreakers(viewer, other)).toEqual(
+      suggestIcebreakers(viewer, other),
+    );
+  });
+});
@@ -0,0 +1,11 @@
+import { LOCAL_MATCH_RATE, likesBack } from "../matching";
+
+describe("likesBack", () => {
+  it(`answers the same for a profile every time, at roughly the match rate`, () => {
+    const ids = Array.from({ length: 1000 }, (_, index) => `profile-${index}`);
+    const mutual = ids.filter(likesBack);
+
+    expect(ids.filter(likesBack)).toEqual(mutual);
+    expect(mutual.length / ids.length).toBeCloseTo(LOCAL_MATCH_RATE, 1);
+  });
+});
@@ -0,0 +1,31 @@
+import { fitPhoto, initials } from "../photos";
+
+describe("fitPhoto", () => {
+  it(`fits portrait and landscape photos inside the box`, () => {
+    const url = "https://images.unsplash.com/photo-1";
+
+    expect(fitPhoto({ url, width: 1080, height: 1920 }, 500, 500)).toEqual({
+      width: 281.25,
+      height: 500,
+    });
+    expect(fitPhoto({ url, width: 1000, height: 500 }, 500, 500)).toEqual({
+      width: 500,
+      height: 250,
+    });
+  });
+
+  it(`fills the box when the dimensions are unknown`, () => {
+    expect(fitPhoto({ url: "https://a" }, 400, 500)).toEqual({
+      width: 400,
+      height: 500,
+    });
+  });
+});
+
+describe("initials", () => {
+  it(`takes up to two initials per name`, () => {
+    expect(initials("mary jane watson")).toBe("MJ");
+    expect(initials("Anna & Ben")).toBe("A & B");
+    expect(initials("  ")).toBe("?");
+  });
+});
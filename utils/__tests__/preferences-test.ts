@@ -0,0 +1,59 @@
+import { DEFAULT_PREFERENCES } from "@/constants/Preferences";
+import { type Profile } from "@/stores/useProfileStore";
+import { collectOptions, matchesPreferences } from "../preferences";
+
+const profile = (info: Partial<Profile["info"]> = {}): Profile => ({
+  id: "66be3c8fc964860700ebf515",
+  info: {
+    age: 20,
+    type: "single",
+    gender: "male",
+    sexuality: "straight",
+    name: "John",
+    about: "",
+    desires: ["Relationship", "Casual"],
+    interests: [],
+    ...info,
+  },
+  associated: null,
+  photos: [],
+});
+
+describe("matchesPreferences", () => {
+  it(`accepts everyone with the default preferences`, () => {
+    expect(matchesPreferences(profile(), DEFAULT_PREFERENCES)).toBe(true);
+    expect(matchesPreferences(profile({ age: 120 }), DEFAULT_PREFERENCES)).toBe(
+      true,
+    );
+  });
+
+  it(`filters on age, listed values and required desires`, () => {
+    const preferences = {
+      ...DEFAULT_PREFERENCES,
+      minAge: 25,
+      genders: ["female", "male"],
+      desires: ["casual"],
+    };
+
+    expect(matchesPreferences(profile(), preferences)).toBe(false);
+    expect(matchesPreferences(profile({ age: 30 }), preferences)).toBe(true);
+    expect(
+      matchesPreferences(
+        profile({ age: 30, desires: ["Friendship"] }),
+        preferences,
+      ),
+    ).toBe(false);
+  });
+});
+
+describe("collectOptions", () => {
+  it(`lists distinct values, keeping selected ones`, () => {
+    expect(
+      collectOptions(
+        [profile(), profile({ gender: "female" }), profile()],
+        "gender",
+        ["non-binary"],
+      ),
+    ).toEqual(["female", "male", "non-binary"]);
+  });
+});
@@ -0,0 +1,67 @@
+import { normaliseText, validateProfiles } from "../profileValidation";
+
+const record = (overrides: Record<string, unknown> = {}) => ({
+  id: "66be3c8fc964860700ebf515",
+  info: {
+    age: 20,
+    type: "single",
+    gender: "male",
+    sexuality: "straight",
+    name: "John",
+    about: '"Tell us more about you"',
+    desires: ["Relationship", " Casual ", "casual"],
+    interests: ["Food", "Video Games"],
+  },
+  associated: null,
+  photos: [{ url: "https://images.unsplash.com/photo-1", width: 716 }],
+  ...overrides,
+});
+
+describe("validateProfiles", () => {
+  it(`normalises strings and tags, and repairs photos`, () => {
+    const { profiles, issues } = validateProfiles([record()]);
+
+    expect(profiles[0].info.about).toBe("Tell us more about you");
+    expect(profiles[0].info.desires).toEqual(["Relationship", "Casual"]);
+    expect(profiles[0].photos[0].height).toBeUndefined();
+    expect(issues).toEqual([
+      expect.objectContaining({
+        action: "repaired",
+        reasons: ["photo dimensions missing"],
+      }),
+    ]);
+  });
+
+  it(`clears an association of a profile with itself`, () => {
+    const { profiles, issues } = validateProfiles([
+      record({ associated: "66be3c8fc964860700ebf515" }),
+    ]);
+
+    expect(profiles[0].associated).toBeNull();
+    expect(issues[0].reasons).toContain("association with itself cleared");
+  });
+
+  it(`drops records that can't be repaired, with a reason`, () => {
+    const { profiles, stats } = validateProfiles([
+      record(),
+      record({ id: undefined }),
+      record({ info: { name: "Kirra", age: 12 } }),
+    ]);
+
+    expect(profiles).toHaveLength(1);
+    expect(stats).toMatchObject({ received: 3, accepted: 1, dropped: 2 });
+    expect(stats.issues.map(({ reasons }) => reasons.at(-1))).toEqual([
+      "photo dimensions missing",
+      "missing id",
+      "age 12 out of range",
+    ]);
+  });
+});
+
+describe("normaliseText", () => {
+  it(`strips one matched pair of wrapping quotes`, () => {
+    expect(normaliseText(" \"'Hi'\" ")).toBe("'Hi'");
+    expect(normaliseText("“Hi”")).toBe("Hi");
+    expect(normaliseText("\"Hi'")).toBe("\"Hi'");
+  });
+});
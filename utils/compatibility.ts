@@ -0,0 +1,149 @@
+import { DEFAULT_COMPATIBILITY_WEIGHTS } from "@/constants/Feed";
+import {
+  PREFERENCES_MAX_AGE,
+  PREFERENCES_MIN_AGE,
+} from "@/constants/Preferences";
+import { type DiscoveryPreferences } from "@/stores/preferencesStore";
+import { type Profile } from "@/stores/useProfileStore";
+
+/**
+ * Relative weight of each part of the compatibility score.
+ * A part the viewer has nothing to compare with is left out rather than scored as zero.
+ */
+export interface CompatibilityWeights {
+  // Share of the viewer's desires the profile also lists.
+  desires: number;
+  // Share of the viewer's interests the profile also lists.
+  interests: number;
+  // How close the profile's age is to the middle of the preferred age range.
+  preferences: number;
+}
+
+/**
+ * What a profile is scored against: the current user's own tags and their preferences.
+ */
+export interface Viewer {
+  desires: string[];
+  interests: string[];
+  preferences: DiscoveryPreferences;
+}
+
+/**
+ * Returns the tags of `tags` that also appear in `own`, ignoring case.
+ */
+export const sharedTags = (tags: string[], own: string[]): string[] => {
+  const ownKeys = new Set(own.map((tag: string) => tag.toLowerCase()));
+  return tags.filter((tag: string) => ownKeys.has(tag.toLowerCase()));
+};
+
+// Fraction of the viewer's tags the profile shares, or null when the viewer has none.
+const overlap = (tags: string[], own: string[]): number | null =>
+  own.length ? sharedTags(tags, own).length / own.length : null;
+
+// 1 in the middle of the preferred age range, falling to 0 at either end, or null while the
+// range is left wide open, which says nothing about the ages the viewer prefers.
+const ageFit = (
+  age: number,
+  { minAge, maxAge }: DiscoveryPreferences,
+): number | null => {
+  if (minAge <= PREFERENCES_MIN_AGE && maxAge >= PREFERENCES_MAX_AGE) {
+    return null;
+  }
+  const halfRange = (maxAge - minAge) / 2;
+  if (!halfRange) {
+    return age === minAge ? 1 : 0;
+  }
+  return Math.max(0, 1 - Math.abs(age - (minAge + halfRange)) / halfRange);
+};
+
+/**
+ * Scores how well a profile suits the viewer.
+ *
+ * @param profile - The profile to score.
+ * @param viewer - The current user's tags and preferences.
+ * @param weights - Relative weights of the parts of the score.
+ * @returns A score between 0 and 1, higher is a better match.
+ */
+export const scoreProfile = (
+  profile: Profile,
+  viewer: Viewer,
+  weights: CompatibilityWeights = DEFAULT_COMPATIBILITY_WEIGHTS,
+): number => {
+  const parts: [number, number | null][] = [
+    [weights.desires, overlap(profile.info.desires, viewer.desires)],
+    [weights.interests, overlap(profile.info.interests, viewer.interests)],
+    [weights.preferences, ageFit(profile.info.age, viewer.preferences)],
+  ];
+
+  const scored = parts.filter(
+    (part): part is [number, number] => part[1] !== null && part[0] > 0,
+  );
+  const totalWeight = scored.reduce((sum, [weight]) => sum + weight, 0);
+
+  return totalWeight
+    ? scored.reduce((sum, [weight, value]) => sum + weight * value, 0) /
+        totalWeight
+    : 0;
+};
+
+/**
+ * Sorts profiles by compatibility, best match first.
+ * Profiles with equal scores keep their order.
+ *
+ * @param profiles - Profiles in their current order.
+ * @param viewer - The current user's tags and preferences.
+ * @param weights - Relative weights of the parts of the score.
+ * @returns A new array in ranked order.
+ */
+export const rankProfiles = <T extends Profile>(
+  profiles: T[],
+  viewer: Viewer,
+  weights: CompatibilityWeights = DEFAULT_COMPATIBILITY_WEIGHTS,
+): T[] =>
+  profiles
+    .map((profile: T, index: number) => ({
+      profile,
+      index,
+      score: scoreProfile(profile, viewer, weights),
+    }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ profile }) => profile);
+
+/**
+ * Ranks the profiles that weren't ranked yet, leaving the ones already ranked in place, so a
+ * batch loaded while the user scrolls lands below what they've seen instead of above it.
+ * New profiles loaded ahead of the known ones, e.g. on refresh, are ranked at the top; the
+ * rest at the bottom.
+ *
+ * @param profiles - Profiles in the order they were loaded.
+ * @param rankedIds - IDs of the profiles in the order they were ranked before.
+ * @param viewer - The current user's tags and preferences.
+ * @param weights - Relative weights of the parts of the score.
+ * @returns A new array in ranked order.
+ */
+export const rankNewProfiles = <T extends Profile>(
+  profiles: T[],
+  rankedIds: string[],
+  viewer: Viewer,
+  weights: CompatibilityWeights = DEFAULT_COMPATIBILITY_WEIGHTS,
+): T[] => {
+  const byId = new Map(profiles.map((profile: T) => [profile.id, profile]));
+  const known = rankedIds
+    .map((id: string) => byId.get(id))
+    .filter((profile): profile is T => !!profile);
+  const knownIds = new Set(known.map((profile: T) => profile.id));
+
+  const firstKnown = profiles.findIndex((profile: T) =>
+    knownIds.has(profile.id),
+  );
+  const top = firstKnown > 0 ? profiles.slice(0, firstKnown) : [];
+  const bottom = profiles
+    .slice(Math.max(firstKnown, 0))
+    .filter((profile: T) => !knownIds.has(profile.id));
+
+  return [
+    ...rankProfiles(top, viewer, weights),
+    ...known,
+    ...rankProfiles(bottom, viewer, weights),
+  ];
+};
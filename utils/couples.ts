@@ -0,0 +1,24 @@
+import { type Profile } from "@/stores/useProfileStore";
+
+/**
+ * Merges the two halves of each couple into a single feed entry.
+ *
+ * A profile whose `associated` partner appears earlier in the list is dropped,
+ * since the partner's card already shows both people. Singles keep their order.
+ *
+ * @param profiles - Profiles in display order.
+ * @returns The profiles with the second half of every couple removed.
+ */
+export const collapseCouples = <T extends Pick<Profile, "id" | "associated">>(
+  profiles: T[],
+): T[] => {
+  const shown = new Set<string>();
+
+  return profiles.filter((profile: T) => {
+    if (profile.associated && shown.has(profile.associated)) {
+      return false;
+    }
+    shown.add(profile.id);
+    return true;
+  });
+};
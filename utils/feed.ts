@@ -0,0 +1,62 @@
+import { Decision } from "@/stores/userStore";
+
+/**
+ * Orders the feed so skipped profiles are deprioritised.
+ *
+ * Profiles that haven't been skipped keep their order. Each skipped profile goes back in
+ * once the user has gone through `resurfaceAfter` other profiles since skipping it, or at
+ * the end of the feed when `resurfaceAfter` is null. Skipped profiles come back oldest skip first.
+ *
+ * @param profiles - Undecided profiles in feed order.
+ * @param skipped - IDs of skipped profiles, oldest skip first.
+ * @param history - The decision history, used to count profiles seen since each skip.
+ * @param resurfaceAfter - Number of other profiles to show before a skipped one comes back.
+ * @returns The profiles in display order.
+ */
+export const orderFeed = <T extends { id: string }>(
+  profiles: T[],
+  skipped: string[],
+  history: Decision[],
+  resurfaceAfter: number | null,
+): T[] => {
+  const fresh = profiles.filter((profile: T) => !skipped.includes(profile.id));
+
+  const held = skipped
+    .map((id: string) => profiles.find((profile: T) => profile.id === id))
+    .filter((profile): profile is T => !!profile);
+
+  if (resurfaceAfter === null) {
+    return [...fresh, ...held];
+  }
+
+  // Positions are fractional so a skipped profile lands just before the fresh profile at that index.
+  const positioned = [
+    ...fresh.map((profile: T, index: number) => ({ profile, position: index })),
+    ...held.map((profile: T, order: number) => {
+      const skipIndex = history
+        .map(
+          (entry: Decision) =>
+            entry.profileId === profile.id && entry.decision === "skip",
+        )
+        .lastIndexOf(true);
+      // A skip that has aged out of the bounded history is long overdue.
+      const seenSince =
+        skipIndex === -1
+          ? Infinity
+          : history
+              .slice(skipIndex + 1)
+              .filter((entry: Decision) => entry.profileId !== profile.id)
+              .length;
+      const remaining = Math.max(0, resurfaceAfter - seenSince);
+
+      return {
+        profile,
+        position: Math.min(remaining, fresh.length) - 0.5 + order / 1000,
+      };
+    }),
+  ];
+
+  return positioned
+    .sort((a, b) => a.position - b.position)
+    .map(({ profile }) => profile);
+};
@@ -0,0 +1,174 @@
+import {
+  ICEBREAKER_ABOUT_LENGTH,
+  ICEBREAKER_COUNT,
+  ICEBREAKER_GENERIC_TEMPLATES,
+  ICEBREAKER_TAG_TEMPLATES,
+  ICEBREAKER_WEIGHTS,
+} from "@/constants/Icebreakers";
+import { type Profile, type ProfileInfo } from "@/stores/useProfileStore";
+import { hashString } from "./ids";
+
+/**
+ * A suggested opening line for a conversation.
+ */
+export interface Icebreaker {
+  // The line, ready to send.
+  text: string;
+  // Tags of the other profile the line is about, as they spell them.
+  tags: string[];
+  // Rank of the line, higher comes first; see `ICEBREAKER_WEIGHTS`.
+  score: number;
+}
+
+// Template keys by alias, and by the key itself.
+const TAG_KEYS = new Map<string, string>(
+  Object.entries(ICEBREAKER_TAG_TEMPLATES).flatMap(([key, { aliases }]) => [
+    [key, key],
+    ...aliases.map((alias: string): [string, string] => [alias, key]),
+  ]),
+);
+
+/**
+ * Returns the template key of a tag: its lowercase form, with aliases such as "muziek"
+ * mapped to their key ("music"). Two tags with the same key count as shared.
+ */
+export const tagKey = (tag: string): string => {
+  const lower = tag.trim().toLowerCase();
+  return TAG_KEYS.get(lower) ?? lower;
+};
+
+// Tags worth writing about, with at least two letters, so "..." and "." are skipped.
+const isWord = (tag: string): boolean =>
+  (tag.match(/\p{L}/gu) ?? []).length >= 2;
+
+// Picks a template by `seed`, so the same profile always gets the same line.
+const pick = (templates: string[], seed: string): string =>
+  templates[hashString(seed) % templates.length];
+
+// Replaces each {placeholder} of a template with its value.
+const fill = (template: string, values: Record<string, string>): string =>
+  template.replace(/\{(\w+)\}/g, (_, name: string) => values[name] ?? "");
+
+/**
+ * Returns the first sentence of a bio, cut at a word to `ICEBREAKER_ABOUT_LENGTH`
+ * characters, or null when it has nothing worth quoting.
+ */
+const excerpt = (about: string): string | null => {
+  const sentence =
+    about
+      .trim()
+      .match(/^[^.!?\n]+/)?.[0]
+      .trim() ?? "";
+  if (!isWord(sentence)) {
+    return null;
+  }
+  if (sentence.length <= ICEBREAKER_ABOUT_LENGTH) {
+    return sentence;
+  }
+
+  const cut = sentence.slice(0, ICEBREAKER_ABOUT_LENGTH);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${lastSpace > 0 ? cut.slice(0, lastSpace) : cut}…`;
+};
+
+/**
+ * Suggests opening lines for a conversation with a profile, best first.
+ *
+ * Lines about tags both profiles list rank highest, two shared tags at once above one,
+ * then lines about the other profile's tags, a quote from their bio, and a plain greeting.
+ * Tags are compared through `tagKey`, so "music" and "muziek" are shared. Only tags with a
+ * template of their own get a line unless both profiles list them.
+ *
+ * @param viewer - The current user's profile details.
+ * @param profile - The profile to write to.
+ * @param count - Most suggestions returned.
+ * @returns Up to `count` suggestions, highest score first.
+ */
+export const suggestIcebreakers = (
+  viewer: Pick<ProfileInfo, "desires" | "interests">,
+  profile: Profile,
+  count: number = ICEBREAKER_COUNT,
+): Icebreaker[] => {
+  const { name, about, interests, desires } = profile.info;
+  const ownKeys = new Set([...viewer.interests, ...viewer.desires].map(tagKey));
+  const seed = (key: string): string => `${profile.id}:${key}`;
+
+  // Interests come first: they make easier openers than desires.
+  const seen = new Set<string>();
+  const tags = [...interests, ...desires].filter((tag: string) => {
+    const key = tagKey(tag);
+    if (!isWord(tag) || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+  const shared = tags.filter((tag: string) => ownKeys.has(tagKey(tag)));
+
+  const suggestions: Icebreaker[] = [];
+
+  if (shared.length >= 2) {
+    const [tag, other] = shared.map((tag: string) => tag.trim());
+    suggestions.push({
+      text: fill(pick(ICEBREAKER_GENERIC_TEMPLATES.sharedPair, seed("pair")), {
+        tag,
+        other,
+      }),
+      tags: [tag, other],
+      score: ICEBREAKER_WEIGHTS.sharedPair,
+    });
+  }
+
+  tags.forEach((tag: string) => {
+    const key = tagKey(tag);
+    const templates = ICEBREAKER_TAG_TEMPLATES[key];
+    const isShared = shared.includes(tag);
+    const values = { tag: tag.trim(), name };
+
+    if (templates) {
+      suggestions.push({
+        text: fill(
+          pick(isShared ? templates.shared : templates.theirs, seed(key)),
+          values,
+        ),
+        tags: [tag.trim()],
+        score: isShared
+          ? ICEBREAKER_WEIGHTS.sharedKnown
+          : ICEBREAKER_WEIGHTS.theirsKnown,
+      });
+    } else if (isShared) {
+      suggestions.push({
+        text: fill(
+          pick(ICEBREAKER_GENERIC_TEMPLATES.shared, seed(key)),
+          values,
+        ),
+        tags: [tag.trim()],
+        score: ICEBREAKER_WEIGHTS.shared,
+      });
+    }
+  });
+
+  const quote = excerpt(about);
+  if (quote) {
+    suggestions.push({
+      text: fill(pick(ICEBREAKER_GENERIC_TEMPLATES.about, seed("about")), {
+        about: quote,
+      }),
+      tags: [],
+      score: ICEBREAKER_WEIGHTS.about,
+    });
+  }
+
+  suggestions.push({
+    text: fill(pick(ICEBREAKER_GENERIC_TEMPLATES.fallback, seed("fallback")), {
+      name: name || "there",
+    }),
+    tags: [],
+    score: ICEBREAKER_WEIGHTS.fallback,
+  });
+
+  // Sorting is stable, so lines of equal rank keep the profile's tag order.
+  return suggestions
+    .sort((a: Icebreaker, b: Icebreaker) => b.score - a.score)
+    .slice(0, count);
+};
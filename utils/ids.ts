@@ -0,0 +1,27 @@
+/**
+ * Random identifier, unique enough to tell sessions and queued requests apart.
+ * Built from the clock and `Math.random`, since `crypto` isn't available on native.
+ */
+export const createId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Deterministic 32-bit hash of a string, spread evenly enough to pick or sample by ID.
+ *
+ * @param text - The string to hash, e.g. a profile ID.
+ * @returns An unsigned 32-bit integer.
+ */
+export const hashString = (text: string): number => {
+  // 32-bit FNV-1a hash.
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index++) {
+    hash = Math.imul(hash ^ text.charCodeAt(index), 0x01000193);
+  }
+
+  // Final mix, so strings differing only in their last characters spread evenly.
+  hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+  hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+  hash ^= hash >>> 16;
+
+  return hash >>> 0;
+};
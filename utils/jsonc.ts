@@ -0,0 +1,54 @@
+/**
+ * Parses JSON with comments (JSONC).
+ *
+ * Strips `//` line comments, `/* *\/` block comments and trailing commas outside of
+ * strings, then hands the result to `JSON.parse`.
+ *
+ * @param text - The JSONC source.
+ * @returns The parsed value.
+ * @throws {SyntaxError} When the text isn't valid JSON once comments are removed.
+ */
+export const parseJsonc = <T = unknown>(text: string): T => {
+  let output = "";
+  // Index in `output` of a comma that may turn out to be trailing.
+  let pendingComma = -1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const next = text[i + 1];
+
+    if (char === '"') {
+      // Copy the whole string, keeping escaped characters as they are.
+      let end = i + 1;
+      while (end < text.length && text[end] !== '"') {
+        end += text[end] === "\\" ? 2 : 1;
+      }
+      output += text.slice(i, end + 1);
+      pendingComma = -1;
+      i = end;
+    } else if (char === "/" && next === "/") {
+      while (i + 1 < text.length && text[i + 1] !== "\n") {
+        i++;
+      }
+    } else if (char === "/" && next === "*") {
+      i += 2;
+      while (i < text.length && !(text[i] === "*" && text[i + 1] === "/")) {
+        i++;
+      }
+      i++;
+    } else if ((char === "]" || char === "}") && pendingComma !== -1) {
+      output =
+        output.slice(0, pendingComma) + output.slice(pendingComma + 1) + char;
+      pendingComma = -1;
+    } else {
+      if (char === ",") {
+        pendingComma = output.length;
+      } else if (!/\s/.test(char)) {
+        pendingComma = -1;
+      }
+      output += char;
+    }
+  }
+
+  return JSON.parse(output) as T;
+};
@@ -0,0 +1,41 @@
+import * as Linking from "expo-linking";
+import { Platform, Share } from "react-native";
+
+/**
+ * Link that opens a profile's page: a `myapp://` deep link on native, or a URL on web.
+ *
+ * @param id - The ID of the profile.
+ */
+export const profileLink = (id: string): string =>
+  Linking.createURL(`/profile/${encodeURIComponent(id)}`);
+
+/**
+ * Shares the link to a profile through the system share sheet. Browsers without the
+ * Web Share API get the link copied to the clipboard instead.
+ *
+ * @param id - The ID of the profile.
+ * @param name - The name shown alongside the link.
+ * @returns "copied" when the link was copied rather than shared.
+ */
+export const shareProfileLink = async (
+  id: string,
+  name: string,
+): Promise<"shared" | "copied"> => {
+  const url = profileLink(id);
+
+  if (Platform.OS === "web" && !navigator.share) {
+    await navigator.clipboard.writeText(url);
+    return "copied";
+  }
+
+  await Share.share({
+    title: `${name} on Smoche`,
+    // Android only shares the message, so it carries the link.
+    message:
+      Platform.OS === "android"
+        ? `${name} on Smoche: ${url}`
+        : `${name} on Smoche`,
+    url,
+  });
+  return "shared";
+};
@@ -0,0 +1,15 @@
+import { hashString } from "./ids";
+
+/**
+ * Share of profiles that like the user back when matches are decided on the device.
+ */
+export const LOCAL_MATCH_RATE = 0.35;
+
+/**
+ * Whether a profile likes the user back, when there is no backend to ask.
+ * Decided by a hash of the profile ID, so the same profile always answers the same way.
+ *
+ * @param profileId - The ID of the liked profile.
+ */
+export const likesBack = (profileId: string): boolean =>
+  hashString(profileId) / 0xffffffff < LOCAL_MATCH_RATE;
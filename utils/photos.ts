@@ -0,0 +1,49 @@
+import { type Photo } from "@/stores/useProfileStore";
+
+/**
+ * Size of a photo shown whole inside a box, keeping its aspect ratio.
+ * Photos without dimensions fill the box, since their shape is unknown.
+ *
+ * @param photo - The photo, with its width and height when known.
+ * @param boxWidth - Width of the box in pixels.
+ * @param boxHeight - Height of the box in pixels.
+ * @returns The largest size with the photo's aspect ratio that fits in the box.
+ */
+export const fitPhoto = (
+  { width, height }: Photo,
+  boxWidth: number,
+  boxHeight: number,
+): { width: number; height: number } => {
+  if (!width || !height) {
+    return { width: boxWidth, height: boxHeight };
+  }
+
+  const ratio = width / height;
+
+  // Wider than the box: fill its width; otherwise fill its height.
+  return ratio > boxWidth / boxHeight
+    ? { width: boxWidth, height: boxWidth / ratio }
+    : { width: boxHeight * ratio, height: boxHeight };
+};
+
+/**
+ * Initials shown in place of a missing photo, e.g. "MJ" for "Mary Jane", or "A & B"
+ * for the combined name of a couple.
+ *
+ * @param name - The name, or names joined by "&".
+ * @returns Up to two initials per name, or "?" when there are none.
+ */
+export const initials = (name: string): string =>
+  name
+    .split("&")
+    .map((part: string) =>
+      part
+        .trim()
+        .split(/\s+/)
+        .filter(Boolean)
+        .slice(0, 2)
+        .map((word: string) => word[0].toUpperCase())
+        .join(""),
+    )
+    .filter(Boolean)
+    .join(" & ") || "?";
@@ -0,0 +1,70 @@
+import { type DiscoveryPreferences } from "@/stores/preferencesStore";
+import { type Profile, type ProfileInfo } from "@/stores/useProfileStore";
+
+// Compares values the way validation normalises them, ignoring case.
+const sameValue = (a: string, b: string): boolean =>
+  a.toLowerCase() === b.toLowerCase();
+
+// True when `values` is empty, or `value` is one of them.
+const accepts = (values: string[], value: string): boolean =>
+  !values.length ||
+  values.some((accepted: string) => sameValue(accepted, value));
+
+/**
+ * Checks a profile against the discovery preferences.
+ *
+ * @param profile - The profile to check.
+ * @param preferences - The user's preferences.
+ * @returns True when the profile should be shown.
+ */
+export const matchesPreferences = (
+  profile: Profile,
+  {
+    minAge,
+    maxAge,
+    genders,
+    sexualities,
+    types,
+    desires,
+  }: DiscoveryPreferences,
+): boolean => {
+  const { age, gender, sexuality, type } = profile.info;
+
+  return (
+    age >= minAge &&
+    age <= maxAge &&
+    accepts(genders, gender) &&
+    accepts(sexualities, sexuality) &&
+    accepts(types, type) &&
+    desires.every((desire: string) =>
+      profile.info.desires.some((listed: string) => sameValue(listed, desire)),
+    )
+  );
+};
+
+/**
+ * Lists the distinct values of a `ProfileInfo` field across profiles, for the preference options.
+ * Values already selected are always included, so they can be deselected.
+ *
+ * @param profiles - Profiles to read the values from.
+ * @param field - The field to collect, a string or a tag list.
+ * @param selected - Values currently selected.
+ * @returns The values sorted alphabetically, first spelling kept.
+ */
+export const collectOptions = (
+  profiles: Profile[],
+  field: keyof Pick<ProfileInfo, "gender" | "sexuality" | "type" | "desires">,
+  selected: string[] = [],
+): string[] => {
+  const options = new Map<string, string>();
+
+  [...selected, ...profiles.flatMap((profile: Profile) => profile.info[field])]
+    .filter((value: string) => !!value)
+    .forEach((value: string) => {
+      if (!options.has(value.toLowerCase())) {
+        options.set(value.toLowerCase(), value);
+      }
+    });
+
+  return Array.from(options.values()).sort((a, b) => a.localeCompare(b));
+};
@@ -0,0 +1,286 @@
+import { type Photo, type Profile } from "@/stores/useProfileStore";
+
+/**
+ * What happened to a single record during validation.
+ */
+export interface ValidationIssue {
+  // ID of the record, when it had one.
+  id?: string;
+  // Position of the record in the batch it arrived in.
+  index: number;
+  // Whether the record was repaired and kept, or dropped.
+  action: "repaired" | "dropped";
+  // Human readable reasons, one per problem found.
+  reasons: string[];
+}
+
+/**
+ * Running totals of validation results, exposed by the profile store.
+ */
+export interface ValidationStats {
+  // Records received from the data source.
+  received: number;
+  // Records kept, including repaired ones.
+  accepted: number;
+  // Records kept after at least one repair.
+  repaired: number;
+  // Records dropped.
+  dropped: number;
+  // Most recent issues, newest last.
+  issues: ValidationIssue[];
+}
+
+export const EMPTY_VALIDATION_STATS: ValidationStats = {
+  received: 0,
+  accepted: 0,
+  repaired: 0,
+  dropped: 0,
+  issues: [],
+};
+
+// Number of issues kept in `ValidationStats.issues`.
+const MAX_TRACKED_ISSUES = 50;
+
+// Youngest and oldest ages accepted as real.
+export const MIN_PROFILE_AGE = 18;
+export const MAX_PROFILE_AGE = 120;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Opening quotes, by the closing quote that matches them.
+const QUOTE_PAIRS: Record<string, string> = { '"': '"', "'": "'", "“": "”" };
+
+/**
+ * Trims a string and removes one pair of literal quotes wrapping the whole value,
+ * e.g. `"\"Tell us more about you\""` becomes `Tell us more about you`.
+ * Quotes only count as a pair when the closing one matches the opening one.
+ */
+export const normaliseText = (value: string): string => {
+  let text = value.trim();
+
+  if (text.length >= 2 && QUOTE_PAIRS[text[0]] === text[text.length - 1]) {
+    text = text.slice(1, -1).trim();
+  }
+
+  return text.replace(/\s+/g, " ");
+};
+
+/**
+ * Normalises a tag list: trims entries, drops empty and non-string entries,
+ * and removes case-insensitive duplicates, keeping the first spelling.
+ * A comma-separated string is accepted as a list.
+ */
+export const normaliseTags = (value: unknown): string[] => {
+  const list = typeof value === "string" ? value.split(",") : value;
+
+  if (!Array.isArray(list)) {
+    return [];
+  }
+
+  const seen = new Set<string>();
+  return list
+    .filter((tag): tag is string => typeof tag === "string")
+    .map(normaliseText)
+    .filter((tag: string) => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+};
+
+// Reads a positive dimension, accepting numeric strings.
+const toDimension = (value: unknown): number | undefined => {
+  const number = typeof value === "string" ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number) && number > 0
+    ? number
+    : undefined;
+};
+
+/**
+ * Validates a single photo.
+ *
+ * @returns The normalised photo, or null when it has no usable URL.
+ */
+const validatePhoto = (raw: unknown, reasons: string[]): Photo | null => {
+  if (!isObject(raw) || typeof raw.url !== "string") {
+    reasons.push("photo without a URL removed");
+    return null;
+  }
+
+  const url = raw.url.trim();
+  if (!/^https?:\/\//.test(url)) {
+    reasons.push(`photo with unsupported URL "${url}" removed`);
+    return null;
+  }
+
+  const width = toDimension(raw.width);
+  const height = toDimension(raw.height);
+  if (!width || !height) {
+    reasons.push("photo dimensions missing");
+  }
+
+  return { url, width, height };
+};
+
+/**
+ * Checks a raw record against the `Profile` schema, repairing what it can.
+ *
+ * @param raw - The record as received.
+ * @returns The normalised profile, or null when it had to be dropped, with the reasons.
+ */
+export const validateProfile = (
+  raw: unknown,
+): { profile: Profile | null; reasons: string[] } => {
+  const reasons: string[] = [];
+  const drop = (reason: string) => ({
+    profile: null,
+    reasons: [...reasons, reason],
+  });
+
+  if (!isObject(raw)) {
+    return drop("record is not an object");
+  }
+
+  const id = typeof raw.id === "number" ? String(raw.id) : raw.id;
+  if (typeof id !== "string" || !id.trim()) {
+    return drop("missing id");
+  }
+
+  const info = raw.info;
+  if (!isObject(info)) {
+    return drop("missing info");
+  }
+
+  const name = typeof info.name === "string" ? normaliseText(info.name) : "";
+  if (!name) {
+    return drop("missing name");
+  }
+
+  const age = typeof info.age === "string" ? Number(info.age) : info.age;
+  if (typeof age !== "number" || !Number.isFinite(age)) {
+    return drop("missing age");
+  }
+  if (age < MIN_PROFILE_AGE || age > MAX_PROFILE_AGE) {
+    return drop(`age ${age} out of range`);
+  }
+  if (typeof info.age !== "number") {
+    reasons.push("age was not a number");
+  }
+
+  // Strings are always normalised; only missing values count as repairs.
+  const readText = (field: string): string => {
+    const value = info[field];
+    if (typeof value !== "string") {
+      reasons.push(`${field} missing`);
+      return "";
+    }
+    return normaliseText(value);
+  };
+
+  const readTags = (field: string): string[] => {
+    const value = info[field];
+    if (!Array.isArray(value)) {
+      reasons.push(`${field} was not a list`);
+    } else if (
+      value.some((tag: unknown) => typeof tag !== "string" || !tag.trim())
+    ) {
+      reasons.push(`invalid ${field} entries removed`);
+    }
+    return normaliseTags(value);
+  };
+
+  const associated =
+    typeof raw.associated === "string" && raw.associated.trim()
+      ? raw.associated.trim()
+      : null;
+  if (raw.associated != null && associated === null) {
+    reasons.push("invalid associated value cleared");
+  }
+  // A profile paired with itself would show as "X & X".
+  const partnerId = associated === id.trim() ? null : associated;
+  if (associated !== null && partnerId === null) {
+    reasons.push("association with itself cleared");
+  }
+
+  if (!Array.isArray(raw.photos)) {
+    reasons.push("photos missing");
+  }
+  const photos = (Array.isArray(raw.photos) ? raw.photos : [])
+    .map((photo: unknown) => validatePhoto(photo, reasons))
+    .filter((photo: Photo | null): photo is Photo => !!photo);
+
+  return {
+    profile: {
+      id: id.trim(),
+      info: {
+        age: Math.floor(age),
+        type: readText("type").toLowerCase(),
+        gender: readText("gender").toLowerCase(),
+        sexuality: readText("sexuality").toLowerCase(),
+        name,
+        about: readText("about"),
+        desires: readTags("desires"),
+        interests: readTags("interests"),
+      },
+      associated: partnerId,
+      photos,
+    },
+    reasons,
+  };
+};
+
+/**
+ * Validates a batch, dropping or repairing bad records, and folds the results into `stats`.
+ *
+ * @param batch - Records as received from a data source.
+ * @param stats - Totals so far.
+ * @returns The valid profiles, this batch's issues and the updated totals.
+ */
+export const validateProfiles = (
+  batch: unknown[],
+  stats: ValidationStats = EMPTY_VALIDATION_STATS,
+): {
+  profiles: Profile[];
+  issues: ValidationIssue[];
+  stats: ValidationStats;
+} => {
+  const profiles: Profile[] = [];
+  const issues: ValidationIssue[] = [];
+
+  batch.forEach((raw: unknown, index: number) => {
+    const { profile, reasons } = validateProfile(raw);
+    const id =
+      profile?.id ??
+      (isObject(raw) && typeof raw.id === "string" ? raw.id : undefined);
+
+    if (profile) {
+      profiles.push(profile);
+    }
+    if (reasons.length) {
+      issues.push({
+        id,
+        index,
+        action: profile ? "repaired" : "dropped",
+        reasons,
+      });
+    }
+  });
+
+  const dropped = issues.filter(({ action }) => action === "dropped").length;
+
+  return {
+    profiles,
+    issues,
+    stats: {
+      received: stats.received + batch.length,
+      accepted: stats.accepted + profiles.length,
+      repaired: stats.repaired + issues.length - dropped,
+      dropped: stats.dropped + dropped,
+      issues: [...stats.issues, ...issues].slice(-MAX_TRACKED_ISSUES),
+    },
+  };
+};